@@ -0,0 +1,500 @@
+import { App, Modal, Notice, Setting, TFile, TFolder, arrayBufferToBase64, base64ToArrayBuffer, normalizePath } from 'obsidian';
+import { Board, DEFAULT_SETTINGS, PluginSettings } from './types';
+import CrystalBoardsPlugin from './main';
+import { checkMigratableStructure, validateBoard } from './board-importer';
+
+/**
+ * Current version of the export envelope.
+ * Version 1 was the original bare array of boards.
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export const EXPORT_FORMAT = 'crystal-boards-backup';
+
+// Settings that must never leave the vault in an export
+const SECRET_SETTING_KEYS = ['openAIApiKey'];
+
+export interface ExportedFile {
+	path: string;
+	encoding: 'utf8' | 'base64';
+	content: string;
+}
+
+export interface ExportEnvelope {
+	format: typeof EXPORT_FORMAT;
+	schemaVersion: number;
+	pluginVersion: string;
+	exportedAt: string;
+	boards: Board[];
+	settings?: Partial<PluginSettings>;
+	files: ExportedFile[];
+}
+
+export interface ExportOptions {
+	includeNotes: boolean;
+	includeCoverImages: boolean;
+}
+
+export interface RestoreResult {
+	boardsRestored: number;
+	filesWritten: string[];
+	filesSkipped: string[];
+	filesRejected: string[]; // Not referenced by the boards, outside the vault, or blocked by a folder
+}
+
+/**
+ * Step-by-step upgrades for older export files, keyed by the version they upgrade from
+ */
+const SCHEMA_MIGRATIONS: Record<number, (data: any) => any> = {
+	1: (boards: any[]) => ({
+		format: EXPORT_FORMAT,
+		schemaVersion: 2,
+		pluginVersion: 'unknown',
+		exportedAt: '',
+		boards: boards,
+		files: []
+	})
+};
+
+/**
+ * Builds versioned export archives and restores them
+ */
+export class BackupManager {
+	private app: App;
+	private plugin: CrystalBoardsPlugin;
+
+	constructor(app: App, plugin: CrystalBoardsPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Build an export envelope with boards, settings and optionally referenced files
+	 */
+	async createExport(options: ExportOptions): Promise<ExportEnvelope> {
+		const boards = this.plugin.dataManager.getBoards();
+
+		const settings: Record<string, any> = { ...this.plugin.dataManager.getSettings() };
+		for (const key of SECRET_SETTING_KEYS) {
+			delete settings[key];
+		}
+
+		const filePaths = new Set<string>();
+		for (const board of boards) {
+			if (options.includeCoverImages && board.coverImage) {
+				filePaths.add(board.coverImage);
+			}
+			if (options.includeNotes) {
+				for (const column of board.columns) {
+					for (const card of column.cards) {
+						card.noteLinks.forEach(path => filePaths.add(path));
+					}
+				}
+				for (const archived of board.archivedCards || []) {
+					archived.card.noteLinks.forEach(path => filePaths.add(path));
+				}
+			}
+		}
+
+		const files: ExportedFile[] = [];
+		for (const path of filePaths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+
+			if (file.extension === 'md') {
+				files.push({ path, encoding: 'utf8', content: await this.app.vault.read(file) });
+			} else {
+				const data = await this.app.vault.readBinary(file);
+				files.push({ path, encoding: 'base64', content: arrayBufferToBase64(data) });
+			}
+		}
+
+		return {
+			format: EXPORT_FORMAT,
+			schemaVersion: EXPORT_SCHEMA_VERSION,
+			pluginVersion: this.plugin.manifest.version,
+			exportedAt: new Date().toISOString(),
+			boards,
+			settings: settings as Partial<PluginSettings>,
+			files
+		};
+	}
+
+	/**
+	 * Parse any export file produced by this or an older version into the
+	 * current envelope, with boards migrated to the current card shape
+	 */
+	parseExport(data: any): ExportEnvelope {
+		let envelope = data;
+		let version = this.detectSchemaVersion(data);
+
+		if (version > EXPORT_SCHEMA_VERSION) {
+			throw new Error(`This backup was made with a newer version of Crystal Boards (schema ${version}). Please update the plugin.`);
+		}
+
+		while (version < EXPORT_SCHEMA_VERSION) {
+			const migrate = SCHEMA_MIGRATIONS[version];
+			if (!migrate) {
+				throw new Error(`Unsupported backup schema version ${version}`);
+			}
+			envelope = migrate(envelope);
+			version = envelope.schemaVersion;
+		}
+
+		if (!Array.isArray(envelope.boards)) {
+			throw new Error('Backup does not contain a list of boards');
+		}
+
+		return {
+			...envelope,
+			boards: this.validateBoards(envelope.boards),
+			files: Array.isArray(envelope.files) ? envelope.files : []
+		};
+	}
+
+	/**
+	 * Migrate the backed-up boards and check them with the same rules as the importer,
+	 * so a broken backup is refused before anything is replaced
+	 */
+	private validateBoards(rawBoards: any[]): Board[] {
+		const errors: string[] = [];
+		rawBoards.forEach((board, index) => errors.push(...checkMigratableStructure(board, `boards[${index}]`)));
+		if (errors.length === 0) {
+			const boards = this.plugin.dataManager.migrateBoards(rawBoards);
+			boards.forEach((board, index) => errors.push(...validateBoard(board, `boards[${index}]`)));
+			if (errors.length === 0) return boards;
+		}
+
+		const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : '';
+		throw new Error(`Backup contains invalid boards: ${errors.slice(0, 3).join('; ')}${more}`);
+	}
+
+	private detectSchemaVersion(data: any): number {
+		if (Array.isArray(data)) {
+			return 1;
+		}
+		if (data && typeof data === 'object' && data.format === EXPORT_FORMAT && typeof data.schemaVersion === 'number') {
+			return data.schemaVersion;
+		}
+		throw new Error('Unrecognized file format: expected a Crystal Boards export');
+	}
+
+	/**
+	 * Replace all boards and settings with the contents of a backup read by parseExport,
+	 * and write its files to the vault. Only files the restored boards link to or use as
+	 * cover are written.
+	 */
+	async restore(envelope: ExportEnvelope, overwriteFiles: boolean): Promise<RestoreResult> {
+		const result: RestoreResult = {
+			boardsRestored: 0,
+			filesWritten: [],
+			filesSkipped: [],
+			filesRejected: []
+		};
+
+		const boards = envelope.boards;
+		await this.plugin.dataManager.replaceBoards(boards);
+		// Undoing an earlier step would bring back boards from before the restore
+		this.plugin.dataManager.history.clear();
+		result.boardsRestored = boards.length;
+
+		if (envelope.settings) {
+			await this.plugin.updateSettings(this.pickRestorableSettings(envelope.settings));
+		}
+
+		for (const board of boards) {
+			const folderPath = this.getSafePath(board.folderPath);
+			if (folderPath) {
+				await this.ensureFolderExists(folderPath);
+			}
+		}
+
+		const referencedPaths = this.getReferencedPaths(boards);
+		for (const file of envelope.files) {
+			if (!file || typeof file.path !== 'string' || typeof file.content !== 'string') continue;
+
+			const path = this.getSafePath(file.path);
+			if (!path || !referencedPaths.has(path)) {
+				result.filesRejected.push(file.path);
+				continue;
+			}
+
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (existing instanceof TFolder) {
+				result.filesRejected.push(path);
+				continue;
+			}
+			if (existing && !overwriteFiles) {
+				result.filesSkipped.push(path);
+				continue;
+			}
+
+			const parentPath = path.substring(0, path.lastIndexOf('/'));
+			await this.ensureFolderExists(parentPath);
+
+			if (file.encoding === 'base64') {
+				const data = base64ToArrayBuffer(file.content);
+				if (existing instanceof TFile) {
+					await this.app.vault.modifyBinary(existing, data);
+				} else {
+					await this.app.vault.createBinary(path, data);
+				}
+			} else if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, file.content);
+			} else {
+				await this.app.vault.create(path, file.content);
+			}
+			result.filesWritten.push(path);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Settings from a backup limited to the known keys with values of the expected type.
+	 * Secrets stored locally are never cleared by a backup.
+	 */
+	private pickRestorableSettings(backupSettings: Record<string, any>): Partial<PluginSettings> {
+		const settings: Record<string, any> = {};
+		for (const [key, defaultValue] of Object.entries(DEFAULT_SETTINGS)) {
+			if (SECRET_SETTING_KEYS.includes(key) || !(key in backupSettings)) continue;
+
+			const value = backupSettings[key];
+			if (typeof value === typeof defaultValue && Array.isArray(value) === Array.isArray(defaultValue) && value !== null) {
+				settings[key] = value;
+			}
+		}
+		return settings as Partial<PluginSettings>;
+	}
+
+	/**
+	 * Normalized paths of the notes and cover images the boards point at
+	 */
+	private getReferencedPaths(boards: Board[]): Set<string> {
+		const paths = new Set<string>();
+		for (const board of boards) {
+			if (board.coverImage) paths.add(normalizePath(board.coverImage));
+			for (const column of board.columns) {
+				column.cards.forEach(card => card.noteLinks.forEach(path => paths.add(normalizePath(path))));
+			}
+			for (const archived of board.archivedCards || []) {
+				archived.card.noteLinks.forEach(path => paths.add(normalizePath(path)));
+			}
+		}
+		return paths;
+	}
+
+	/**
+	 * The normalized vault path, or null for absolute paths, paths leaving the vault and
+	 * paths inside the Obsidian config folder
+	 */
+	private getSafePath(rawPath: string): string | null {
+		if (/^([\\/]|[a-zA-Z]:)/.test(rawPath)) return null;
+
+		const path = normalizePath(rawPath);
+		if (!path || path.split(/[\\/]/).some(segment => segment === '..')) return null;
+
+		const configDir = this.app.vault.configDir;
+		if (path === configDir || path.startsWith(`${configDir}/`)) return null;
+
+		return path;
+	}
+
+	/**
+	 * Download an envelope as a single JSON archive
+	 */
+	download(envelope: ExportEnvelope): void {
+		const dataStr = JSON.stringify(envelope, null, 2);
+		const blob = new Blob([dataStr], { type: 'application/json' });
+
+		const a = document.createElement('a');
+		a.href = URL.createObjectURL(blob);
+		a.download = `crystal-boards-backup-${new Date().toISOString().split('T')[0]}.json`;
+		a.click();
+
+		URL.revokeObjectURL(a.href);
+	}
+
+	/**
+	 * Ask which files to include, then build and download a backup
+	 */
+	openExportDialog(): void {
+		new ExportOptionsModal(this.app, async (options) => {
+			try {
+				const envelope = await this.createExport(options);
+				this.download(envelope);
+				new Notice(`✅ Exported ${envelope.boards.length} boards and ${envelope.files.length} files`);
+			} catch (error) {
+				console.error('Error exporting data:', error);
+				new Notice(`❌ Export failed: ${error.message}`);
+			}
+		}).open();
+	}
+
+	/**
+	 * Pick a backup file, confirm, and restore it
+	 */
+	openRestoreDialog(): void {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = '.json';
+
+		input.onchange = async (e) => {
+			const file = (e.target as HTMLInputElement).files?.[0];
+			if (!file) return;
+
+			let envelope: ExportEnvelope;
+			try {
+				envelope = this.parseExport(JSON.parse(await file.text()));
+			} catch (error) {
+				console.error('Error reading backup:', error);
+				new Notice(`❌ Cannot restore ${file.name}: ${error.message}`);
+				return;
+			}
+
+			new RestoreConfirmModal(this.app, envelope, async (overwriteFiles) => {
+				try {
+					const result = await this.restore(envelope, overwriteFiles);
+					await this.plugin.refreshBoardViews();
+
+					const messages = [`✅ Restored ${result.boardsRestored} boards`];
+					if (result.filesWritten.length > 0) messages.push(`📝 Wrote ${result.filesWritten.length} files`);
+					if (result.filesSkipped.length > 0) messages.push(`⏭️ Kept ${result.filesSkipped.length} existing files`);
+					if (result.filesRejected.length > 0) messages.push(`🚫 Ignored ${result.filesRejected.length} files that could not be restored safely`);
+					new Notice(messages.join('\n'), 7000);
+				} catch (error) {
+					console.error('Error restoring backup:', error);
+					new Notice(`❌ Restore failed: ${error.message}`);
+				}
+			}).open();
+		};
+
+		input.click();
+	}
+
+	private async ensureFolderExists(path: string): Promise<void> {
+		if (path && !(await this.app.vault.adapter.exists(path))) {
+			await this.app.vault.createFolder(path);
+		}
+	}
+}
+
+class ExportOptionsModal extends Modal {
+	private onConfirm: (options: ExportOptions) => Promise<void>;
+	private options: ExportOptions = {
+		includeNotes: false,
+		includeCoverImages: false
+	};
+
+	constructor(app: App, onConfirm: (options: ExportOptions) => Promise<void>) {
+		super(app);
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Export Backup' });
+		contentEl.createEl('p', {
+			text: 'Boards and settings are always included. API keys are never exported.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.setName('Include linked notes')
+			.setDesc('Embed the notes linked from cards')
+			.addToggle(toggle => toggle
+				.setValue(this.options.includeNotes)
+				.onChange((value) => {
+					this.options.includeNotes = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Include cover images')
+			.setDesc('Embed board cover images (can make the file large)')
+			.addToggle(toggle => toggle
+				.setValue(this.options.includeCoverImages)
+				.onChange((value) => {
+					this.options.includeCoverImages = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText('Cancel')
+					.onClick(() => {
+						this.close();
+					});
+			})
+			.addButton((btn) => {
+				btn.setButtonText('Export')
+					.setCta()
+					.onClick(async () => {
+						this.close();
+						await this.onConfirm(this.options);
+					});
+			});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class RestoreConfirmModal extends Modal {
+	private envelope: ExportEnvelope;
+	private onConfirm: (overwriteFiles: boolean) => Promise<void>;
+	private overwriteFiles = false;
+
+	constructor(app: App, envelope: ExportEnvelope, onConfirm: (overwriteFiles: boolean) => Promise<void>) {
+		super(app);
+		this.envelope = envelope;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Restore Backup' });
+
+		const exportedAt = this.envelope.exportedAt
+			? new Date(this.envelope.exportedAt).toLocaleString()
+			: 'an unknown date';
+		contentEl.createEl('p', {
+			text: `This backup from ${exportedAt} contains ${this.envelope.boards.length} boards` +
+				` and ${this.envelope.files.length} files.`
+		});
+		contentEl.createEl('p', {
+			text: 'Restoring replaces all of your current boards and settings and clears the undo history. This action cannot be undone.',
+			cls: 'crystal-restore-warning'
+		});
+
+		if (this.envelope.files.length > 0) {
+			new Setting(contentEl)
+				.setName('Overwrite existing files')
+				.setDesc('Replace notes and images that already exist in the vault with the backed-up version')
+				.addToggle(toggle => toggle
+					.setValue(this.overwriteFiles)
+					.onChange((value) => {
+						this.overwriteFiles = value;
+					}));
+		}
+
+		const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+
+		const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelBtn.onclick = () => this.close();
+
+		const restoreBtn = buttonContainer.createEl('button', {
+			text: 'Restore',
+			cls: 'mod-warning'
+		});
+		restoreBtn.onclick = async () => {
+			this.close();
+			await this.onConfirm(this.overwriteFiles);
+		};
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,185 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import CrystalBoardsPlugin from './main';
+import { ArchivedCard, Board, Card, Column } from './types';
+
+function generateId(prefix: string): string {
+	return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * A copy of a card with fresh IDs and timestamps for the card, its todos and its links.
+ * The copy is not tied to the source task, so syncing and re-extraction leave it alone.
+ */
+export function copyCard(card: Card): Card {
+	const now = Date.now();
+	const copy: Card = JSON.parse(JSON.stringify(card));
+	delete copy.source;
+	delete copy.fingerprint;
+
+	return {
+		...copy,
+		id: generateId('card'),
+		todos: copy.todos.map(todo => ({ ...todo, id: generateId('todo'), created: now })),
+		researchUrls: copy.researchUrls.map(link => ({ ...link, id: generateId('url'), created: now })),
+		created: now,
+		modified: now,
+		columnEnteredAt: now
+	};
+}
+
+/**
+ * A copy of a column with a fresh ID, holding copies of its cards or no cards at all
+ */
+export function copyColumn(column: Column, includeCards: boolean): Column {
+	return {
+		...column,
+		id: generateId('column'),
+		cards: includeCards ? column.cards.map(copyCard) : []
+	};
+}
+
+/**
+ * Clones whole boards, optionally together with the files in the board folder and the
+ * notes linked from its cards
+ */
+export class BoardCloner {
+	private app: App;
+	private plugin: CrystalBoardsPlugin;
+
+	constructor(app: App, plugin: CrystalBoardsPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * A copy of the board under a new name with fresh IDs throughout. With copyFiles the
+	 * board folder is copied into the new board's folder, linked notes kept elsewhere are
+	 * copied into the top of that folder too, and card links and the cover image point at
+	 * the copies. Files that could not be copied are returned; cards keep linking to the
+	 * originals of those. The board is not saved yet.
+	 */
+	async cloneBoard(board: Board, name: string, position: number, copyFiles: boolean): Promise<{ board: Board; failedPaths: string[] }> {
+		const now = Date.now();
+		const folderPath = normalizePath(`${this.plugin.settings.kanbanFolderPath}/${name}`);
+
+		// Archived cards follow their column to its new ID
+		const columnIds = new Map<string, string>();
+		const columns = [...board.columns]
+			.sort((a, b) => a.position - b.position)
+			.map((column, index) => {
+				const copy = copyColumn(column, true);
+				columnIds.set(column.id, copy.id);
+				return { ...copy, position: index };
+			});
+		const archivedCards: ArchivedCard[] = (board.archivedCards || []).map(archived => ({
+			...archived,
+			card: copyCard(archived.card),
+			columnId: columnIds.get(archived.columnId) || archived.columnId
+		}));
+
+		const clone: Board = {
+			...JSON.parse(JSON.stringify(board)),
+			id: generateId('board'),
+			name,
+			folderPath,
+			position,
+			columns,
+			archivedCards: archivedCards.length > 0 ? archivedCards : undefined,
+			created: now,
+			modified: now
+		};
+
+		const failedPaths: string[] = [];
+		await this.ensureFolderExists(folderPath);
+		if (copyFiles) {
+			const copiedPaths = await this.copyBoardFiles(board, clone, failedPaths);
+			const rewrite = (path: string) => copiedPaths.get(path) || path;
+			clone.columns.forEach(column => column.cards.forEach(card => {
+				card.noteLinks = card.noteLinks.map(rewrite);
+			}));
+			clone.archivedCards?.forEach(archived => {
+				archived.card.noteLinks = archived.card.noteLinks.map(rewrite);
+			});
+			if (clone.coverImage) {
+				clone.coverImage = rewrite(clone.coverImage);
+			}
+		}
+
+		return { board: clone, failedPaths };
+	}
+
+	/**
+	 * Copy the board folder and the linked notes outside it. Returns old path → new path;
+	 * files that failed to copy are added to failedPaths.
+	 */
+	private async copyBoardFiles(board: Board, clone: Board, failedPaths: string[]): Promise<Map<string, string>> {
+		const copiedPaths = new Map<string, string>();
+
+		const folder = this.app.vault.getAbstractFileByPath(normalizePath(board.folderPath));
+		if (folder instanceof TFolder) {
+			for (const file of this.collectFiles(folder)) {
+				// The markdown storage backend keeps the board itself in its folder
+				if (this.plugin.dataManager.isBoardFile(file.path)) continue;
+
+				const relativePath = file.path.slice(folder.path.length + 1);
+				await this.copyFile(file, `${clone.folderPath}/${relativePath}`, copiedPaths, failedPaths);
+			}
+		}
+
+		const linkedPaths = new Set<string>();
+		board.columns.forEach(column => column.cards.forEach(card => card.noteLinks.forEach(path => linkedPaths.add(path))));
+		(board.archivedCards || []).forEach(archived => archived.card.noteLinks.forEach(path => linkedPaths.add(path)));
+
+		for (const path of linkedPaths) {
+			if (copiedPaths.has(path)) continue;
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.copyFile(file, `${clone.folderPath}/${file.name}`, copiedPaths, failedPaths);
+			}
+		}
+
+		return copiedPaths;
+	}
+
+	private async copyFile(file: TFile, targetPath: string, copiedPaths: Map<string, string>, failedPaths: string[]): Promise<void> {
+		try {
+			const path = await this.getAvailablePath(normalizePath(targetPath));
+			await this.ensureFolderExists(path.substring(0, path.lastIndexOf('/')));
+			await this.app.vault.copy(file, path);
+			copiedPaths.set(file.path, path);
+		} catch (error) {
+			console.error(`Error copying ${file.path}:`, error);
+			failedPaths.push(file.path);
+		}
+	}
+
+	private collectFiles(folder: TFolder): TFile[] {
+		return folder.children.flatMap(child => {
+			if (child instanceof TFile) return [child];
+			if (child instanceof TFolder) return this.collectFiles(child);
+			return [];
+		});
+	}
+
+	/**
+	 * The path itself, or the first free "name 1.ext", "name 2.ext"... next to it
+	 */
+	private async getAvailablePath(path: string): Promise<string> {
+		if (!(await this.app.vault.adapter.exists(path))) return path;
+
+		const dotIndex = path.lastIndexOf('.');
+		const hasExtension = dotIndex > path.lastIndexOf('/');
+		const base = hasExtension ? path.substring(0, dotIndex) : path;
+		const extension = hasExtension ? path.substring(dotIndex) : '';
+		for (let i = 1; ; i++) {
+			const candidate = `${base} ${i}${extension}`;
+			if (!(await this.app.vault.adapter.exists(candidate))) return candidate;
+		}
+	}
+
+	private async ensureFolderExists(path: string): Promise<void> {
+		if (path && !(await this.app.vault.adapter.exists(path))) {
+			await this.app.vault.createFolder(path);
+		}
+	}
+}
@@ -0,0 +1,67 @@
+import { Card } from './types';
+
+export type TodoFilterState = 'any' | 'open' | 'complete' | 'none';
+
+export interface BoardFilter {
+	query: string; // Matched against title, description and todo text
+	tags: string[]; // Cards must have every one of these
+	hasNotes: boolean;
+	hasUnreadLinks: boolean;
+	todoState: TodoFilterState; // Open: some todos left, complete: all todos done, none: no todos
+}
+
+export const EMPTY_BOARD_FILTER: BoardFilter = {
+	query: '',
+	tags: [],
+	hasNotes: false,
+	hasUnreadLinks: false,
+	todoState: 'any'
+};
+
+export function isFilterActive(filter: BoardFilter): boolean {
+	return filter.query.trim() !== '' ||
+		filter.tags.length > 0 ||
+		filter.hasNotes ||
+		filter.hasUnreadLinks ||
+		filter.todoState !== 'any';
+}
+
+/**
+ * Whether a card passes every part of the filter
+ */
+export function cardMatchesFilter(card: Card, filter: BoardFilter): boolean {
+	const query = filter.query.trim().toLowerCase();
+	if (query) {
+		const haystack = [card.title, card.description || '', ...card.todos.map(todo => todo.text)]
+			.join('\n')
+			.toLowerCase();
+		if (!query.split(/\s+/).every(term => haystack.includes(term))) {
+			return false;
+		}
+	}
+
+	if (filter.tags.some(tag => !card.tags.includes(tag))) {
+		return false;
+	}
+
+	if (filter.hasNotes && card.noteLinks.length === 0) {
+		return false;
+	}
+
+	// Links without a status have never been opened
+	if (filter.hasUnreadLinks && !card.researchUrls.some(url => (url.status || 'unread') === 'unread')) {
+		return false;
+	}
+
+	const openTodos = card.todos.filter(todo => !todo.completed).length;
+	switch (filter.todoState) {
+		case 'open':
+			return openTodos > 0;
+		case 'complete':
+			return card.todos.length > 0 && openTodos === 0;
+		case 'none':
+			return card.todos.length === 0;
+		default:
+			return true;
+	}
+}
@@ -0,0 +1,351 @@
+import { App } from 'obsidian';
+import { Board, Column, Card } from './types';
+import CrystalBoardsPlugin from './main';
+import { ISO_DATE_PATTERN } from './card-dates';
+
+export type ImportAction = 'add' | 'merge' | 'replace' | 'skip';
+
+export interface ImportCandidate {
+	board: Board;
+	errors: string[];
+	idConflict?: Board; // Existing board with the same ID
+	nameConflict?: Board; // Existing board with the same name (case-insensitive)
+	action: ImportAction;
+}
+
+export interface ImportSummary {
+	added: string[];
+	merged: string[];
+	replaced: string[];
+	skipped: string[];
+}
+
+/**
+ * Validate a single card against the Card shape in types.ts
+ */
+export function validateCard(card: any, path: string): string[] {
+	const errors: string[] = [];
+
+	if (!card || typeof card !== 'object') {
+		return [`${path} is not an object`];
+	}
+	if (typeof card.id !== 'string' || !card.id) errors.push(`${path}.id must be a non-empty string`);
+	if (typeof card.title !== 'string') errors.push(`${path}.title must be a string`);
+	if (card.description !== undefined && typeof card.description !== 'string') {
+		errors.push(`${path}.description must be a string`);
+	}
+	if (!isStringArray(card.tags)) errors.push(`${path}.tags must be an array of strings`);
+	if (!isStringArray(card.noteLinks)) errors.push(`${path}.noteLinks must be an array of strings`);
+	if (!Array.isArray(card.todos)) {
+		errors.push(`${path}.todos must be an array`);
+	} else {
+		card.todos.forEach((todo: any, index: number) => {
+			if (!todo || typeof todo.id !== 'string' || typeof todo.text !== 'string' || typeof todo.completed !== 'boolean') {
+				errors.push(`${path}.todos[${index}] must have id, text and completed`);
+			}
+		});
+	}
+	if (!Array.isArray(card.researchUrls)) {
+		errors.push(`${path}.researchUrls must be an array`);
+	} else {
+		card.researchUrls.forEach((url: any, index: number) => {
+			if (!url || typeof url.id !== 'string' || typeof url.url !== 'string' || typeof url.title !== 'string') {
+				errors.push(`${path}.researchUrls[${index}] must have id, title and url`);
+			}
+		});
+	}
+	if (typeof card.created !== 'number') errors.push(`${path}.created must be a number`);
+	if (typeof card.modified !== 'number') errors.push(`${path}.modified must be a number`);
+	for (const field of ['dueDate', 'startDate', 'scheduledDate', 'doneDate']) {
+		if (card[field] !== undefined && (typeof card[field] !== 'string' || !ISO_DATE_PATTERN.test(card[field]))) {
+			errors.push(`${path}.${field} must be an ISO date (YYYY-MM-DD)`);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Validate a single column (and its cards) against the Column shape in types.ts
+ */
+export function validateColumn(column: any, path: string): string[] {
+	if (!column || typeof column !== 'object') {
+		return [`${path} is not an object`];
+	}
+
+	const errors: string[] = [];
+	if (typeof column.id !== 'string' || !column.id) errors.push(`${path}.id must be a non-empty string`);
+	if (typeof column.name !== 'string') errors.push(`${path}.name must be a string`);
+	if (typeof column.color !== 'string') errors.push(`${path}.color must be a string`);
+	if (typeof column.position !== 'number') errors.push(`${path}.position must be a number`);
+	if (column.wipLimit !== undefined && (typeof column.wipLimit !== 'number' || column.wipLimit < 0)) {
+		errors.push(`${path}.wipLimit must be a non-negative number`);
+	}
+	if (column.defaultTemplateId !== undefined && typeof column.defaultTemplateId !== 'string') {
+		errors.push(`${path}.defaultTemplateId must be a string`);
+	}
+	if (!Array.isArray(column.cards)) {
+		errors.push(`${path}.cards must be an array`);
+	} else {
+		column.cards.forEach((card: any, index: number) => {
+			errors.push(...validateCard(card, `${path}.cards[${index}]`));
+		});
+	}
+
+	return errors;
+}
+
+/**
+ * Validate a single board (and its columns) against the Board shape in types.ts
+ */
+export function validateBoard(board: any, path: string): string[] {
+	if (!board || typeof board !== 'object') {
+		return [`${path} is not an object`];
+	}
+
+	const errors: string[] = [];
+	if (typeof board.id !== 'string' || !board.id) errors.push(`${path}.id must be a non-empty string`);
+	if (typeof board.name !== 'string' || !board.name.trim()) errors.push(`${path}.name must be a non-empty string`);
+	if (typeof board.folderPath !== 'string') errors.push(`${path}.folderPath must be a string`);
+	if (typeof board.position !== 'number') errors.push(`${path}.position must be a number`);
+	if (typeof board.created !== 'number') errors.push(`${path}.created must be a number`);
+	if (typeof board.modified !== 'number') errors.push(`${path}.modified must be a number`);
+	if (!Array.isArray(board.columns)) {
+		errors.push(`${path}.columns must be an array`);
+	} else {
+		board.columns.forEach((column: any, index: number) => {
+			errors.push(...validateColumn(column, `${path}.columns[${index}]`));
+		});
+	}
+	if (board.archivedCards !== undefined) {
+		if (!Array.isArray(board.archivedCards)) {
+			errors.push(`${path}.archivedCards must be an array`);
+		} else {
+			board.archivedCards.forEach((archived: any, index: number) => {
+				const archivedPath = `${path}.archivedCards[${index}]`;
+				if (!archived || typeof archived.columnId !== 'string' || typeof archived.archivedAt !== 'number') {
+					errors.push(`${archivedPath} must have columnId and archivedAt`);
+				} else {
+					errors.push(...validateCard(archived.card, `${archivedPath}.card`));
+				}
+			});
+		}
+	}
+
+	return errors;
+}
+
+function isStringArray(value: any): boolean {
+	return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Check the minimum structure the migrations rely on (board → columns → cards arrays)
+ */
+export function checkMigratableStructure(board: any, path: string): string[] {
+	if (!board || typeof board !== 'object') {
+		return [`${path} is not an object`];
+	}
+	if (!Array.isArray(board.columns)) {
+		return [`${path}.columns must be an array`];
+	}
+
+	const errors: string[] = [];
+	board.columns.forEach((column: any, index: number) => {
+		if (!column || typeof column !== 'object' || !Array.isArray(column.cards)) {
+			errors.push(`${path}.columns[${index}].cards must be an array`);
+		} else if (column.cards.some((card: any) => !card || typeof card !== 'object')) {
+			errors.push(`${path}.columns[${index}] contains a card that is not an object`);
+		}
+	});
+	return errors;
+}
+
+/**
+ * Validates, migrates and applies imported boards
+ */
+export class BoardImporter {
+	private app: App;
+	private plugin: CrystalBoardsPlugin;
+
+	constructor(app: App, plugin: CrystalBoardsPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Analyze parsed boards from an export file, returning one candidate per board
+	 */
+	analyze(rawBoards: any[]): ImportCandidate[] {
+		const existingBoards = this.plugin.dataManager.getBoards();
+
+		return rawBoards.map((rawBoard, index) => {
+			const path = `boards[${index}]`;
+			const structureErrors = checkMigratableStructure(rawBoard, path);
+
+			if (structureErrors.length > 0) {
+				return {
+					board: rawBoard,
+					errors: structureErrors,
+					action: 'skip' as ImportAction
+				};
+			}
+
+			// Run the same migrations as DataManager.loadData
+			const [board] = this.plugin.dataManager.migrateBoards([rawBoard]);
+			const errors = validateBoard(board, path);
+
+			const idConflict = existingBoards.find(existing => existing.id === board.id);
+			const nameConflict = typeof board.name === 'string'
+				? existingBoards.find(existing => existing.name.toLowerCase() === board.name.toLowerCase())
+				: undefined;
+
+			// Conflicting boards are left alone until the user picks merge or replace
+			const action: ImportAction = errors.length > 0 || nameConflict || idConflict ? 'skip' : 'add';
+
+			return { board, errors, idConflict, nameConflict, action };
+		});
+	}
+
+	/**
+	 * The existing board a candidate would merge into or replace.
+	 * A name match wins over an ID match since that is what the user sees.
+	 */
+	getConflictTarget(candidate: ImportCandidate): Board | undefined {
+		return candidate.nameConflict || candidate.idConflict;
+	}
+
+	/**
+	 * Apply the chosen action for every candidate
+	 */
+	async apply(candidates: ImportCandidate[]): Promise<ImportSummary> {
+		const summary: ImportSummary = {
+			added: [],
+			merged: [],
+			replaced: [],
+			skipped: []
+		};
+
+		// The whole import is one undo step
+		await this.plugin.dataManager.history.transaction('Import boards', async () => {
+			for (const candidate of candidates) {
+				await this.applyCandidate(candidate, summary);
+			}
+		});
+
+		return summary;
+	}
+
+	private async applyCandidate(candidate: ImportCandidate, summary: ImportSummary): Promise<void> {
+		const name = candidate.board?.name || '(unnamed board)';
+
+		if (candidate.errors.length > 0 || candidate.action === 'skip') {
+			summary.skipped.push(name);
+			return;
+		}
+
+		const target = this.getConflictTarget(candidate);
+
+		if (candidate.action === 'replace' && target) {
+			await this.replaceBoard(target, candidate.board);
+			summary.replaced.push(name);
+		} else if (candidate.action === 'merge' && target) {
+			await this.mergeBoard(target, candidate.board);
+			summary.merged.push(name);
+		} else {
+			await this.addBoard(candidate.board);
+			summary.added.push(name);
+		}
+	}
+
+	private async addBoard(imported: Board): Promise<void> {
+		const boards = this.plugin.dataManager.getBoards();
+		const idTaken = boards.some(board => board.id === imported.id);
+
+		let name = imported.name;
+		let suffix = 2;
+		while (boards.some(board => board.name.toLowerCase() === name.toLowerCase())) {
+			name = `${imported.name} (${suffix++})`;
+		}
+
+		const board: Board = {
+			...imported,
+			id: idTaken ? this.generateId('board') : imported.id,
+			name: name,
+			folderPath: name === imported.name
+				? imported.folderPath
+				: `${this.plugin.settings.kanbanFolderPath}/${name}`,
+			position: boards.length
+		};
+
+		await this.plugin.dataManager.addBoard(board);
+		await this.ensureFolderExists(board.folderPath);
+	}
+
+	private async replaceBoard(target: Board, imported: Board): Promise<void> {
+		await this.plugin.dataManager.updateBoard({
+			...imported,
+			id: target.id,
+			position: target.position
+		});
+		await this.ensureFolderExists(imported.folderPath);
+	}
+
+	private async mergeBoard(target: Board, imported: Board): Promise<void> {
+		const columns: Column[] = target.columns.map(column => ({ ...column, cards: [...column.cards] }));
+		const existingCardIds = new Set<string>();
+		columns.forEach(column => column.cards.forEach(card => existingCardIds.add(card.id)));
+		(target.archivedCards || []).forEach(archived => existingCardIds.add(archived.card.id));
+
+		// Imported column ID → ID of the column its cards went to
+		const columnIds = new Map<string, string>();
+		const sortedImported = [...imported.columns].sort((a, b) => a.position - b.position);
+		for (const importedColumn of sortedImported) {
+			let column = columns.find(col => col.name.toLowerCase() === importedColumn.name.toLowerCase());
+
+			if (!column) {
+				column = {
+					...importedColumn,
+					id: columns.some(col => col.id === importedColumn.id)
+						? this.generateId('column')
+						: importedColumn.id,
+					position: columns.length,
+					cards: []
+				};
+				columns.push(column);
+			}
+			columnIds.set(importedColumn.id, column.id);
+
+			// Only bring over cards the board doesn't already have
+			const newCards: Card[] = importedColumn.cards.filter(card => !existingCardIds.has(card.id));
+			newCards.forEach(card => existingCardIds.add(card.id));
+			column.cards.push(...newCards);
+		}
+
+		const archivedCards = [...(target.archivedCards || [])];
+		for (const archived of imported.archivedCards || []) {
+			if (!existingCardIds.has(archived.card.id)) {
+				existingCardIds.add(archived.card.id);
+				// Cards archived from a column the import no longer has follow its name
+				const columnName = (archived.columnName || '').toLowerCase();
+				const column = columns.find(col => col.name.toLowerCase() === columnName);
+				archivedCards.push({
+					...archived,
+					columnId: columnIds.get(archived.columnId) || column?.id || archived.columnId
+				});
+			}
+		}
+
+		await this.plugin.dataManager.updateBoard({ ...target, columns, archivedCards });
+	}
+
+	private async ensureFolderExists(path: string): Promise<void> {
+		if (path && !(await this.app.vault.adapter.exists(path))) {
+			await this.app.vault.createFolder(path);
+		}
+	}
+
+	private generateId(prefix: string): string {
+		return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+	}
+}
@@ -0,0 +1,189 @@
+import CrystalBoardsPlugin from './main';
+import { Board, BoardTemplate, Column } from './types';
+
+export const DEFAULT_BOARD_TEMPLATE_ID = 'basic';
+
+/**
+ * Presets that are always available. Saved templates are listed after them.
+ */
+export const BUILT_IN_BOARD_TEMPLATES: BoardTemplate[] = [
+	{
+		id: DEFAULT_BOARD_TEMPLATE_ID,
+		name: 'Basic',
+		description: 'To do, in progress and done',
+		columns: [
+			{ name: 'To Do', color: '#E8E8E8', cards: [] },
+			{ name: 'In Progress', color: '#E0E8E0', cards: [] },
+			{ name: 'Done', color: '#E8E0E8', cards: [] }
+		]
+	},
+	{
+		id: 'reading-pipeline',
+		name: 'Reading Pipeline',
+		description: 'Books and articles from the reading list to notes',
+		emoji: '📚',
+		columns: [
+			{ name: 'To Read', color: '#E8E8E8', cards: [] },
+			{ name: 'Reading', color: '#E0E8E8', wipLimit: 3, cards: [] },
+			{ name: 'Taking Notes', color: '#E8E8E0', wipLimit: 3, cards: [] },
+			{ name: 'Finished', color: '#E0E8E0', cards: [] }
+		]
+	},
+	{
+		id: 'content-calendar',
+		name: 'Content Calendar',
+		description: 'Posts from idea to published',
+		emoji: '🗓️',
+		columns: [
+			{
+				name: 'Ideas',
+				color: '#E8E8E8',
+				cards: [{
+					title: 'Content idea',
+					description: 'Copy this card for each new piece. Set a due date for the publishing day.',
+					tags: ['content'],
+					todos: ['Outline', 'Draft', 'Edit', 'Schedule'],
+					researchUrls: []
+				}]
+			},
+			{ name: 'Drafting', color: '#E8E8E0', wipLimit: 3, cards: [] },
+			{ name: 'Editing', color: '#E8E0E8', cards: [] },
+			{ name: 'Scheduled', color: '#E0E8E8', cards: [] },
+			{ name: 'Published', color: '#E0E8E0', cards: [] }
+		]
+	},
+	{
+		id: 'bug-triage',
+		name: 'Bug Triage',
+		description: 'Bug reports from triage to fixed',
+		emoji: '🐞',
+		columns: [
+			{
+				name: 'New',
+				color: '#E8E8E8',
+				cards: [{
+					title: 'Example bug report',
+					description: 'What happened, what was expected and the steps to reproduce it.',
+					tags: ['bug'],
+					todos: ['Reproduce', 'Find the cause', 'Fix', 'Add a regression test'],
+					researchUrls: []
+				}]
+			},
+			{ name: 'Triaged', color: '#E8E8E0', cards: [] },
+			{ name: 'In Progress', color: '#E0E8E8', wipLimit: 3, cards: [] },
+			{ name: 'In Review', color: '#E8E0E8', cards: [] },
+			{ name: 'Fixed', color: '#E0E8E0', cards: [] }
+		]
+	}
+];
+
+/**
+ * Built-in and saved board templates, and boards created from them
+ */
+export class BoardTemplateManager {
+	private plugin: CrystalBoardsPlugin;
+
+	constructor(plugin: CrystalBoardsPlugin) {
+		this.plugin = plugin;
+	}
+
+	getTemplates(): BoardTemplate[] {
+		return [...BUILT_IN_BOARD_TEMPLATES, ...(this.plugin.settings.boardTemplates || [])];
+	}
+
+	/**
+	 * The template with this ID, or the basic preset when it no longer exists
+	 */
+	getTemplate(id?: string): BoardTemplate {
+		return this.getTemplates().find(template => template.id === id) || BUILT_IN_BOARD_TEMPLATES[0];
+	}
+
+	isBuiltIn(id: string): boolean {
+		return BUILT_IN_BOARD_TEMPLATES.some(template => template.id === id);
+	}
+
+	/**
+	 * A new board with the template's columns and starter cards. The board is not saved yet.
+	 */
+	createBoard(template: BoardTemplate, name: string, position: number): Board {
+		const now = Date.now();
+		const board: Board = {
+			id: this.generateId('board'),
+			name,
+			folderPath: `${this.plugin.settings.kanbanFolderPath}/${name}`,
+			emoji: template.emoji,
+			coverImage: template.coverImage,
+			position,
+			columns: [],
+			created: now,
+			modified: now
+		};
+		board.columns = this.createColumns(template, board);
+		return board;
+	}
+
+	/**
+	 * Fresh columns and starter cards from a template, with card placeholders filled in for the board
+	 */
+	createColumns(template: BoardTemplate, board: Board): Column[] {
+		return template.columns.map((templateColumn, index) => {
+			const column: Column = {
+				id: this.generateId('column'),
+				name: templateColumn.name,
+				color: templateColumn.color,
+				position: index,
+				cards: [],
+				wipLimit: templateColumn.wipLimit,
+				wipStrict: templateColumn.wipStrict,
+				defaultTemplateId: templateColumn.defaultTemplateId
+			};
+			column.cards = templateColumn.cards.map(card => this.plugin.cardTemplates.createCard(card, board, column));
+			return column;
+		});
+	}
+
+	/**
+	 * A template with the board's columns and looks, and optionally its cards as starter cards
+	 */
+	createTemplateFromBoard(board: Board, name: string, description: string, includeCards: boolean): BoardTemplate {
+		return {
+			id: this.generateId('board-template'),
+			name,
+			description: description || undefined,
+			emoji: board.emoji,
+			coverImage: board.coverImage,
+			columns: [...board.columns]
+				.sort((a, b) => a.position - b.position)
+				.map(column => ({
+					name: column.name,
+					color: column.color,
+					wipLimit: column.wipLimit,
+					wipStrict: column.wipStrict,
+					defaultTemplateId: column.defaultTemplateId,
+					cards: includeCards ? column.cards.map(card => ({
+						title: card.title,
+						description: card.description || '',
+						tags: [...card.tags],
+						todos: card.todos.map(todo => todo.text),
+						researchUrls: card.researchUrls.map(link => ({ title: link.title, url: link.url }))
+					})) : []
+				}))
+		};
+	}
+
+	async saveTemplate(template: BoardTemplate): Promise<void> {
+		await this.plugin.updateSettings({
+			boardTemplates: [...(this.plugin.settings.boardTemplates || []), template]
+		});
+	}
+
+	async deleteTemplate(id: string): Promise<void> {
+		await this.plugin.updateSettings({
+			boardTemplates: (this.plugin.settings.boardTemplates || []).filter(template => template.id !== id)
+		});
+	}
+
+	private generateId(prefix: string): string {
+		return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+	}
+}
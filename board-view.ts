@@ -1,8 +1,22 @@
-import { ItemView, WorkspaceLeaf, Modal, Setting, App, TFile, MarkdownRenderer, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Modal, Setting, App, TFile, MarkdownRenderer, Menu, Notice, Scope, SuggestModal } from 'obsidian';
 import CrystalBoardsPlugin from './main';
-import { Board, Column, Card, BOARD_VIEW_TYPE } from './types';
+import { Board, Column, Card, ArchivedCard, CardTemplate, SwimlaneGrouping, SwimlaneSettings, BOARD_VIEW_TYPE } from './types';
 import { DragDropManager } from './drag-drop';
 import { CardModal } from './card-modal';
+import { PRIORITY_EMOJI } from './task-metadata';
+import { compareByDueDate, getDueStatus, isDueThisWeek } from './card-dates';
+import { getWipBlockReason, getWipStatus } from './wip-limits';
+import { Swimlane, assignCardToLane, getCardLaneKey, getSwimlanes } from './swimlanes';
+import { BoardFilter, EMPTY_BOARD_FILTER, TodoFilterState, cardMatchesFilter, isFilterActive } from './board-filter';
+
+type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+// A rendered list of cards: a column, or one column's cell of a swimlane
+interface NavigationCell {
+	columnId: string;
+	laneKey: string | null;
+	cardIds: string[]; // Shown cards in display order
+}
 
 export class BoardView extends ItemView {
 	plugin: CrystalBoardsPlugin;
@@ -16,12 +30,41 @@ export class BoardView extends ItemView {
 	private windowResizeHandler: (() => void) | null = null;
 	private workspaceLayoutHandler: (() => void) | null = null;
 	private accentColorObserver: MutationObserver | null = null;
+	// How cards are ordered and filtered by due date; kept while the view is open
+	private dueDateView: 'manual' | 'sort' | 'this-week' = 'manual';
+	// Card filter of the board, saved per board in the vault's local storage
+	private filter: BoardFilter = { ...EMPTY_BOARD_FILTER };
+	private filterBoardId: string | null = null;
+	private filterBarEl: HTMLElement | null = null;
+	// Card that keyboard navigation and the focused card commands act on; kept across re-renders
+	private focusedCardId: string | null = null;
+	// Card templates offered when adding cards, reloaded on every render
+	private cardTemplates: CardTemplate[] = [];
 
 	constructor(leaf: WorkspaceLeaf, plugin: CrystalBoardsPlugin, board: Board) {
 		super(leaf);
 		this.plugin = plugin;
 		this.board = board;
 		this.dragDropManager = new DragDropManager(plugin, this);
+
+		// Undo/redo board changes while this view is focused
+		this.scope = new Scope(this.app.scope);
+		this.plugin.registerHistoryKeys(this.scope);
+
+		// Arrows or h/j/k/l move focus between cards, with Shift they move the focused card
+		const directionKeys: [NavigationDirection, string[]][] = [
+			['up', ['ArrowUp', 'k']],
+			['down', ['ArrowDown', 'j']],
+			['left', ['ArrowLeft', 'h']],
+			['right', ['ArrowRight', 'l']]
+		];
+		for (const [direction, keys] of directionKeys) {
+			for (const key of keys) {
+				this.scope.register([], key, (evt) => this.handleNavigationKey(evt, () => this.moveCardFocus(direction)));
+				this.scope.register(['Shift'], key, (evt) => this.handleNavigationKey(evt, () => this.moveFocusedCard(direction)));
+			}
+		}
+		this.scope.register([], 'Enter', (evt) => this.handleNavigationKey(evt, () => this.openFocusedCard()));
 	}
 
 	getViewType(): string {
@@ -200,6 +243,58 @@ export class BoardView extends ItemView {
 		});
 		addColumnBtn.onclick = () => this.openAddColumnModal();
 
+		const archivedCount = this.board.archivedCards?.length || 0;
+		const archiveBtn = actionsContainer.createEl('button', {
+			text: `📦 Archived (${archivedCount})`,
+			cls: 'crystal-board-archive-btn'
+		});
+		archiveBtn.onclick = () => this.openArchivePanel();
+
+		const groupingLabels: Record<SwimlaneGrouping, string> = {
+			'none': 'Lanes',
+			'tag': 'Lanes: tag',
+			'priority': 'Lanes: priority',
+			'lane': 'Lanes: custom'
+		};
+		const lanesBtn = actionsContainer.createEl('button', {
+			text: `🏊 ${groupingLabels[this.board.swimlanes?.groupBy || 'none']}`,
+			cls: 'crystal-board-lanes-btn'
+		});
+		lanesBtn.onclick = () => this.openSwimlaneModal();
+
+		const compactBtn = actionsContainer.createEl('button', {
+			text: '▤ Compact',
+			cls: `crystal-board-compact-btn${this.board.compactCards ? ' is-active' : ''}`,
+			attr: { 'aria-label': 'Show card titles only', 'aria-pressed': String(!!this.board.compactCards) }
+		});
+		compactBtn.onclick = async () => {
+			await this.plugin.dataManager.updateBoardView({ ...this.board, compactCards: !this.board.compactCards });
+			this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+			await this.renderBoard();
+		};
+
+		const saveTemplateBtn = actionsContainer.createEl('button', {
+			text: '💾 Save as Template',
+			cls: 'crystal-board-save-template-btn',
+			attr: { 'aria-label': 'Save the columns of this board as a board template' }
+		});
+		saveTemplateBtn.onclick = () => this.openSaveTemplateModal();
+
+		const dueSelect = actionsContainer.createEl('select', {
+			cls: 'dropdown crystal-board-due-select',
+			attr: { 'aria-label': 'Order and filter by due date' }
+		});
+		dueSelect.createEl('option', { text: 'Manual order', value: 'manual' });
+		dueSelect.createEl('option', { text: '📅 Sort by due date', value: 'sort' });
+		dueSelect.createEl('option', { text: '📅 Due this week', value: 'this-week' });
+		dueSelect.value = this.dueDateView;
+		dueSelect.onchange = async () => {
+			this.dueDateView = dueSelect.value as 'manual' | 'sort' | 'this-week';
+			await this.renderBoard();
+		};
+
+		this.renderFilterBar(contentEl);
+
 		// Bulk action toolbar (shown when cards are selected)
 		this.renderBulkActionToolbar(contentEl);
 
@@ -245,12 +340,23 @@ export class BoardView extends ItemView {
 		const boardContainer = contentEl.createEl('div', { cls: 'crystal-board-container' });
 		const columnsContainer = boardContainer.createEl('div', { cls: 'crystal-board-columns' });
 
+		this.cardTemplates = await this.plugin.cardTemplates.getTemplates();
+
 		// Render columns
 		const sortedColumns = (this.board.columns || []).sort((a, b) => a.position - b.position);
-		for (const column of sortedColumns) {
-			await this.renderColumn(columnsContainer, column);
+		const lanes = getSwimlanes(this.board);
+		if (lanes.length > 0) {
+			columnsContainer.addClass('crystal-board-swimlanes');
+			await this.renderSwimlanes(columnsContainer, sortedColumns, lanes);
+		} else {
+			for (const column of sortedColumns) {
+				await this.renderColumn(columnsContainer, column);
+			}
 		}
 
+		this.applyFilter();
+		this.restoreCardFocus();
+
 		// Apply responsive column sizing
 		this.applyResponsiveColumnSizing(columnsContainer, sortedColumns.length);
 		
@@ -369,15 +475,18 @@ export class BoardView extends ItemView {
 		// For mobile/small screens, switch to horizontal scroll when columns get too narrow
 		const containerWidth = columnsContainer.getBoundingClientRect().width || window.innerWidth;
 		const minColumnWidth = 280;
-		const totalMinWidth = columnCount * minColumnWidth + (columnCount - 1) * 16; // 16px gap
-		
-		if (containerWidth < totalMinWidth) {
-			
-			columnsContainer.style.gridTemplateColumns = `repeat(${columnCount}, ${minColumnWidth}px)`;
-		} else {
-			
-			columnsContainer.style.gridTemplateColumns = `repeat(${columnCount}, 1fr)`;
-		}
+		const collapsedColumnWidth = 48;
+		const sortedColumns = [...this.board.columns].sort((a, b) => a.position - b.position);
+		const collapsedCount = sortedColumns.filter(column => column.collapsed).length;
+		const expandedCount = sortedColumns.length - collapsedCount;
+		const totalMinWidth = expandedCount * minColumnWidth + collapsedCount * collapsedColumnWidth +
+			(columnCount - 1) * 16; // 16px gap
+		const expandedWidth = containerWidth < totalMinWidth ? `${minColumnWidth}px` : 'minmax(0, 1fr)';
+
+		// Collapsed columns keep a fixed narrow strip
+		columnsContainer.style.gridTemplateColumns = sortedColumns
+			.map(column => column.collapsed ? `${collapsedColumnWidth}px` : expandedWidth)
+			.join(' ');
 
 		
 	}
@@ -472,6 +581,46 @@ export class BoardView extends ItemView {
 		});
 		// Minimalist design - no column background colors
 
+		if (column.collapsed) {
+			this.renderCollapsedColumn(columnEl, column);
+			return;
+		}
+
+		this.renderColumnHeader(columnEl, column);
+		await this.renderColumnCards(columnEl, column);
+	}
+
+	/**
+	 * Narrow strip with the column name and card count. It keeps an empty card list
+	 * so cards can still be dropped onto the column.
+	 */
+	private renderCollapsedColumn(columnEl: HTMLElement, column: Column): void {
+		columnEl.addClass('crystal-column-collapsed');
+		columnEl.setAttribute('aria-label', `Expand ${column.name}`);
+
+		const stripEl = columnEl.createEl('div', { cls: 'crystal-column-strip' });
+		stripEl.createEl('span', { text: this.formatColumnCount(column, column.cards.length), cls: 'crystal-column-count' });
+		stripEl.createEl('span', { text: column.name, cls: 'crystal-column-strip-name' });
+		stripEl.onclick = () => this.setColumnCollapsed(column, false);
+
+		const wipStatus = getWipStatus(column);
+		if (wipStatus) {
+			stripEl.addClass(`crystal-column-header-${wipStatus}`);
+		}
+
+		columnEl.createEl('div', { cls: 'crystal-column-cards' });
+	}
+
+	private async setColumnCollapsed(column: Column, collapsed: boolean): Promise<void> {
+		await this.plugin.dataManager.updateBoardView({
+			...this.board,
+			columns: this.board.columns.map(col => col.id === column.id ? { ...col, collapsed: collapsed || undefined } : col)
+		});
+		this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+		await this.renderBoard();
+	}
+
+	private renderColumnHeader(columnEl: HTMLElement, column: Column): void {
 		// Column header
 		const headerEl = columnEl.createEl('div', { cls: 'crystal-column-header' });
 		const titleEl = headerEl.createEl('h3', { 
@@ -522,6 +671,16 @@ export class BoardView extends ItemView {
 		};
 		moveRightBtn.disabled = isLast;
 
+		const collapseBtn = columnActions.createEl('button', {
+			text: '⇤',
+			cls: 'crystal-column-action-btn crystal-column-collapse-btn',
+			attr: { 'aria-label': 'Collapse column' }
+		});
+		collapseBtn.onclick = (e) => {
+			e.stopPropagation();
+			this.setColumnCollapsed(column, true);
+		};
+
 		const editBtn = columnActions.createEl('button', {
 			text: '⚙️',
 			cls: 'crystal-column-action-btn',
@@ -532,6 +691,25 @@ export class BoardView extends ItemView {
 			this.openEditColumnModal(column);
 		};
 
+		const duplicateBtn = columnActions.createEl('button', {
+			text: '⧉',
+			cls: 'crystal-column-action-btn',
+			attr: { 'aria-label': 'Duplicate column' }
+		});
+		duplicateBtn.onclick = (e) => {
+			e.stopPropagation();
+			const menu = new Menu();
+			menu.addItem(item => item
+				.setTitle('Duplicate column with cards')
+				.setIcon('copy')
+				.onClick(() => this.duplicateColumn(column, true)));
+			menu.addItem(item => item
+				.setTitle('Duplicate column without cards')
+				.setIcon('columns')
+				.onClick(() => this.duplicateColumn(column, false)));
+			menu.showAtMouseEvent(e);
+		};
+
 		const bulkSelectBtn = columnActions.createEl('button', {
 			text: '☑️',
 			cls: 'crystal-column-action-btn crystal-column-bulk-btn',
@@ -552,29 +730,590 @@ export class BoardView extends ItemView {
 			this.confirmDeleteColumn(column);
 		};
 
-		// Card count
+		// Card count and WIP limit, updated by applyFilter when cards are hidden
 		headerEl.createEl('span', { 
-			text: `${column.cards.length}`,
-			cls: 'crystal-column-count' 
+			text: this.formatColumnCount(column, column.cards.length),
+			cls: 'crystal-column-count',
+			attr: column.wipLimit ? { 'aria-label': `WIP limit: ${column.wipLimit}${column.wipStrict ? ' (strict)' : ''}` } : {}
 		});
+		const wipStatus = getWipStatus(column);
+		if (wipStatus) {
+			headerEl.addClass(`crystal-column-header-${wipStatus}`);
+		}
 
+	}
+
+	/**
+	 * Cards of a column, or of one swimlane within the column, and the add card button
+	 */
+	private async renderColumnCards(columnEl: HTMLElement, column: Column, laneKey?: string): Promise<void> {
 		// Cards container
 		const cardsEl = columnEl.createEl('div', { cls: 'crystal-column-cards' });
 		
 		// Render cards
-		for (const card of column.cards) {
+		for (const card of this.getVisibleCards(column)) {
+			if (laneKey !== undefined && getCardLaneKey(this.board, card) !== laneKey) continue;
 			await this.renderCard(cardsEl, card, column.id);
 		}
 
-		// Add card button
-		const addCardBtn = cardsEl.createEl('button', {
+		// Add card button, starting from the column's default template
+		const addCardRow = cardsEl.createEl('div', { cls: 'crystal-add-card-row' });
+		const defaultTemplate = this.cardTemplates.find(template => template.id === column.defaultTemplateId);
+		const addCardBtn = addCardRow.createEl('button', {
 			text: '+ Add Card',
-			cls: 'crystal-add-card-btn'
+			cls: 'crystal-add-card-btn',
+			attr: defaultTemplate ? { 'aria-label': `From template "${defaultTemplate.name}"` } : {}
 		});
-		addCardBtn.onclick = () => this.openAddCardModal(column.id);
+		addCardBtn.onclick = () => this.openAddCardModal(column.id, laneKey);
+
+		if (this.cardTemplates.length > 0) {
+			const templateBtn = addCardRow.createEl('button', {
+				text: '▾',
+				cls: 'crystal-add-card-template-btn',
+				attr: { 'aria-label': 'Add card from template' }
+			});
+			templateBtn.onclick = () => {
+				new CardTemplateSuggestModal(this.app, this.cardTemplates, (template) => {
+					this.openAddCardModal(column.id, laneKey, template ? template.id : null);
+				}).open();
+			};
+		}
 	}
 
+	/**
+	 * Column headers in the first grid row, then per lane a full-width lane header and
+	 * one cell per column. Collapsed lanes only show their header.
+	 */
+	private async renderSwimlanes(container: HTMLElement, columns: Column[], lanes: Swimlane[]): Promise<void> {
+		for (const column of columns) {
+			const columnEl = container.createEl('div', {
+				cls: 'crystal-column crystal-column-header-only',
+				attr: { 'data-column-id': column.id }
+			});
+			if (column.collapsed) {
+				this.renderCollapsedColumn(columnEl, column);
+			} else {
+				this.renderColumnHeader(columnEl, column);
+			}
+		}
+
+		const collapsed = this.board.swimlanes?.collapsed || [];
+		for (const lane of lanes) {
+			const isCollapsed = collapsed.includes(lane.key);
+			const laneHeaderEl = container.createEl('div', {
+				cls: `crystal-swimlane-header${isCollapsed ? ' is-collapsed' : ''}`,
+				attr: { 'data-lane': lane.key, 'aria-label': isCollapsed ? 'Expand lane' : 'Collapse lane' }
+			});
+			laneHeaderEl.createEl('span', { text: isCollapsed ? '▶' : '▼', cls: 'crystal-swimlane-toggle' });
+			laneHeaderEl.createEl('span', { text: lane.name, cls: 'crystal-swimlane-name' });
+			laneHeaderEl.createEl('span', { cls: 'crystal-swimlane-count' }); // Filled in by applyFilter
+			laneHeaderEl.onclick = () => this.setLaneCollapsed(lane.key, !isCollapsed);
+
+			if (isCollapsed) continue;
+
+			for (const column of columns) {
+				const cellEl = container.createEl('div', {
+					cls: 'crystal-column crystal-swimlane-cell',
+					attr: { 'data-column-id': column.id, 'data-lane': lane.key }
+				});
+				if (column.collapsed) {
+					// Still a drop target, but without cards
+					cellEl.addClass('crystal-column-collapsed');
+					cellEl.createEl('div', { cls: 'crystal-column-cards' });
+				} else {
+					await this.renderColumnCards(cellEl, column, lane.key);
+				}
+			}
+		}
+	}
+
+	private async setLaneCollapsed(laneKey: string, collapsed: boolean): Promise<void> {
+		const settings = this.board.swimlanes;
+		if (!settings) return;
+
+		const others = (settings.collapsed || []).filter(key => key !== laneKey);
+		await this.plugin.dataManager.updateBoardView({
+			...this.board,
+			swimlanes: { ...settings, collapsed: collapsed ? [...others, laneKey] : others }
+		});
+		this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+		await this.renderBoard();
+	}
+
+	/**
+	 * Put a card into a swimlane by updating its lane tag, priority or lane field.
+	 * Returns false when the card is already in that lane.
+	 */
+	async moveCardToLane(cardId: string, columnId: string, laneKey: string): Promise<boolean> {
+		const board = this.plugin.dataManager.getBoardById(this.board.id);
+		const card = board?.columns.find(col => col.id === columnId)?.cards.find(c => c.id === cardId);
+		if (!board || !card || getCardLaneKey(board, card) === laneKey) return false;
+
+		await this.plugin.dataManager.updateCard(board.id, columnId, assignCardToLane(board, card, laneKey));
+		return true;
+	}
+
+	openSaveTemplateModal(): void {
+		if (this.board.columns.length === 0) {
+			new Notice('Add a column before saving the board as a template');
+			return;
+		}
+
+		new SaveBoardTemplateModal(this.app, this.board, async (name, description, includeCards) => {
+			const template = this.plugin.boardTemplates.createTemplateFromBoard(this.board, name, description, includeCards);
+			await this.plugin.boardTemplates.saveTemplate(template);
+			new Notice(`Saved board template "${name}"`);
+		}).open();
+	}
 
+	private openSwimlaneModal(): void {
+		new SwimlaneModal(this.app, this.board.swimlanes, async (settings) => {
+			await this.plugin.dataManager.updateBoard({ ...this.board, swimlanes: settings });
+			this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+			await this.renderBoard();
+		}).open();
+	}
+
+
+
+	/**
+	 * Scroll to a card and highlight it. Clears the filter and due date view if they hide
+	 * the card, and opens the archive for archived cards.
+	 */
+	async focusCard(cardId: string): Promise<void> {
+		const inColumn = this.board.columns.some(column => column.cards.some(card => card.id === cardId));
+		if (!inColumn) {
+			const archived = (this.board.archivedCards || []).find(entry => entry.card.id === cardId);
+			if (archived) {
+				this.openArchivePanel(archived.card.title);
+			}
+			return;
+		}
+
+		let cardEl = this.contentEl.querySelector(`.crystal-card[data-card-id="${cardId}"]`) as HTMLElement | null;
+
+		// Expand the card's column if it is collapsed
+		const cardColumn = this.board.columns.find(column => column.cards.some(c => c.id === cardId))!;
+		if (cardColumn.collapsed) {
+			await this.setColumnCollapsed(cardColumn, false);
+			cardEl = this.contentEl.querySelector(`.crystal-card[data-card-id="${cardId}"]`) as HTMLElement | null;
+		}
+
+		// Expand the card's swimlane if it is collapsed
+		const card = cardColumn.cards.find(c => c.id === cardId)!;
+		const laneKey = getCardLaneKey(this.board, card);
+		if (!cardEl && getSwimlanes(this.board).length > 0 && this.board.swimlanes?.collapsed?.includes(laneKey)) {
+			await this.setLaneCollapsed(laneKey, false);
+			cardEl = this.contentEl.querySelector(`.crystal-card[data-card-id="${cardId}"]`) as HTMLElement | null;
+		}
+
+		if (!cardEl || cardEl.hasClass('crystal-card-filtered-out')) {
+			this.dueDateView = 'manual';
+			this.updateFilter({ ...EMPTY_BOARD_FILTER });
+			await this.renderBoard();
+			new Notice('Filter cleared to show the card');
+			cardEl = this.contentEl.querySelector(`.crystal-card[data-card-id="${cardId}"]`) as HTMLElement | null;
+		}
+		if (!cardEl) return;
+
+		cardEl.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+		cardEl.addClass('crystal-card-highlighted');
+		window.setTimeout(() => cardEl?.removeClass('crystal-card-highlighted'), 2500);
+	}
+
+	/**
+	 * Run a navigation key's action unless the key was meant for an input or button
+	 */
+	private handleNavigationKey(evt: KeyboardEvent, action: () => unknown): boolean {
+		const target = evt.target as HTMLElement | null;
+		if (target && (target.isContentEditable || target.closest('input, textarea, select, button'))) {
+			return true;
+		}
+		action();
+		return false;
+	}
+
+	/**
+	 * The rendered card lists in DOM order: columns by position, or row by row in swimlane
+	 * mode. Collapsed columns are left out since their cards aren't shown.
+	 */
+	private getNavigationCells(): NavigationCell[] {
+		const cells: NavigationCell[] = [];
+		this.contentEl.querySelectorAll('.crystal-column-cards').forEach(cardsEl => {
+			const columnEl = cardsEl.closest('.crystal-column');
+			if (!columnEl || columnEl.hasClass('crystal-column-collapsed')) return;
+
+			cells.push({
+				columnId: columnEl.getAttribute('data-column-id') || '',
+				laneKey: columnEl.getAttribute('data-lane'),
+				cardIds: Array.from(cardsEl.querySelectorAll('.crystal-card:not(.crystal-card-filtered-out)'))
+					.map(el => el.getAttribute('data-card-id') || '')
+			});
+		});
+		return cells;
+	}
+
+	private findFocusedPosition(cells: NavigationCell[]): { cellIndex: number; cardIndex: number } | null {
+		if (!this.focusedCardId) return null;
+		for (let cellIndex = 0; cellIndex < cells.length; cellIndex++) {
+			const cardIndex = cells[cellIndex].cardIds.indexOf(this.focusedCardId);
+			if (cardIndex !== -1) return { cellIndex, cardIndex };
+		}
+		return null;
+	}
+
+	/**
+	 * The next cell from a position in the given step direction that passes the check
+	 */
+	private findCell(cells: NavigationCell[], fromIndex: number, step: number, check: (cell: NavigationCell) => boolean): NavigationCell | null {
+		for (let i = fromIndex + step; i >= 0 && i < cells.length; i += step) {
+			if (check(cells[i])) return cells[i];
+		}
+		return null;
+	}
+
+	/**
+	 * Move focus to the neighbouring card. Up and down continue into the next swimlane,
+	 * left and right stay in the lane and skip columns without shown cards.
+	 */
+	private moveCardFocus(direction: NavigationDirection): void {
+		const cells = this.getNavigationCells();
+		const position = this.findFocusedPosition(cells);
+		if (!position) {
+			const firstCell = cells.find(cell => cell.cardIds.length > 0);
+			if (firstCell) this.setCardFocus(firstCell.cardIds[0]);
+			return;
+		}
+
+		const cell = cells[position.cellIndex];
+		if (direction === 'up' || direction === 'down') {
+			const step = direction === 'down' ? 1 : -1;
+			const nextCardId = cell.cardIds[position.cardIndex + step];
+			if (nextCardId) {
+				this.setCardFocus(nextCardId);
+				return;
+			}
+
+			const laneCell = this.findCell(cells, position.cellIndex, step,
+				other => other.columnId === cell.columnId && other.cardIds.length > 0);
+			if (laneCell) {
+				this.setCardFocus(step > 0 ? laneCell.cardIds[0] : laneCell.cardIds[laneCell.cardIds.length - 1]);
+			}
+			return;
+		}
+
+		const targetCell = this.findCell(cells, position.cellIndex, direction === 'right' ? 1 : -1,
+			other => other.laneKey === cell.laneKey && other.cardIds.length > 0);
+		if (targetCell) {
+			this.setCardFocus(targetCell.cardIds[Math.min(position.cardIndex, targetCell.cardIds.length - 1)]);
+		}
+	}
+
+	/**
+	 * Move the focused card past its neighbour, into the next swimlane at the end of a
+	 * lane, or into the next column at about the same height
+	 */
+	private async moveFocusedCard(direction: NavigationDirection): Promise<void> {
+		const cells = this.getNavigationCells();
+		const position = this.findFocusedPosition(cells);
+		if (!position || !this.focusedCardId) return;
+
+		const cardId = this.focusedCardId;
+		const cell = cells[position.cellIndex];
+		const column = this.board.columns.find(col => col.id === cell.columnId);
+		if (!column) return;
+
+		let changed = false;
+		if (direction === 'up' || direction === 'down') {
+			const step = direction === 'down' ? 1 : -1;
+			const neighbourId = cell.cardIds[position.cardIndex + step];
+			if (neighbourId) {
+				if (this.dueDateView !== 'manual') {
+					new Notice('Cards are ordered by due date. Switch to manual order to reorder them.');
+					return;
+				}
+				// Indices skip the moved card, so place it before or after its neighbour
+				const otherCardIds = column.cards.filter(card => card.id !== cardId).map(card => card.id);
+				const toIndex = otherCardIds.indexOf(neighbourId) + (step > 0 ? 1 : 0);
+				changed = await this.plugin.dataManager.moveCardWithinColumn(this.board.id, column.id, cardId, toIndex);
+			} else if (cell.laneKey !== null) {
+				const laneCell = this.findCell(cells, position.cellIndex, step, other => other.columnId === cell.columnId);
+				if (laneCell?.laneKey != null) {
+					changed = await this.moveCardToLane(cardId, column.id, laneCell.laneKey);
+				}
+			}
+		} else {
+			const targetCell = this.findCell(cells, position.cellIndex, direction === 'right' ? 1 : -1,
+				other => other.laneKey === cell.laneKey);
+			const targetColumn = targetCell && this.board.columns.find(col => col.id === targetCell.columnId);
+			if (!targetCell || !targetColumn) return;
+
+			const blockReason = getWipBlockReason(targetColumn, 1);
+			if (blockReason) {
+				new Notice(`🚫 ${blockReason}`, 5000);
+				return;
+			}
+
+			// Land next to the card shown at the same height in the target column
+			const neighbourId = targetCell.cardIds[position.cardIndex];
+			const toIndex = neighbourId
+				? targetColumn.cards.findIndex(card => card.id === neighbourId)
+				: targetColumn.cards.length;
+			await this.plugin.dataManager.moveCardBetweenColumns(this.board.id, cardId, column.id, targetColumn.id, toIndex);
+			changed = true;
+		}
+
+		if (changed) {
+			this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+			await this.renderBoard();
+		}
+	}
+
+	private getShownCardEl(cardId: string): HTMLElement | null {
+		return this.contentEl.querySelector(`.crystal-card[data-card-id="${cardId}"]:not(.crystal-card-filtered-out)`);
+	}
+
+	private setCardFocus(cardId: string): void {
+		const cardEl = this.getShownCardEl(cardId);
+		if (!cardEl) return;
+
+		this.markFocusedCard(cardId);
+		cardEl.focus({ preventScroll: true });
+		cardEl.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+	}
+
+	private markFocusedCard(cardId: string): void {
+		this.focusedCardId = cardId;
+		this.contentEl.querySelectorAll('.crystal-card-focused').forEach(el => el.removeClass('crystal-card-focused'));
+		this.getShownCardEl(cardId)?.addClass('crystal-card-focused');
+	}
+
+	/**
+	 * Put keyboard focus back on the focused card after a re-render, unless the user has
+	 * moved on to something outside the board in the meantime
+	 */
+	private restoreCardFocus(): void {
+		if (!this.focusedCardId) return;
+
+		const active = document.activeElement;
+		const focusIsFree = !active || active === document.body || this.contentEl.contains(active);
+		if (focusIsFree && this.app.workspace.getActiveViewOfType(BoardView) === this) {
+			this.setCardFocus(this.focusedCardId);
+		}
+	}
+
+	/**
+	 * The focused card and its column, if it is still on the board
+	 */
+	getFocusedCard(): { card: Card; columnId: string } | null {
+		if (!this.focusedCardId) return null;
+		for (const column of this.board.columns) {
+			const card = column.cards.find(c => c.id === this.focusedCardId);
+			if (card) return { card, columnId: column.id };
+		}
+		return null;
+	}
+
+	openFocusedCard(): void {
+		const focused = this.getFocusedCard();
+		if (focused) {
+			this.openCardModal(focused.card, focused.columnId);
+		}
+	}
+
+	toggleFocusedCardSelection(): void {
+		const focused = this.getFocusedCard();
+		if (focused) {
+			this.toggleCardSelection(focused.card.id);
+		}
+	}
+
+	async duplicateFocusedCard(): Promise<void> {
+		const focused = this.getFocusedCard();
+		if (focused) {
+			await this.duplicateCard(focused.card, focused.columnId);
+		}
+	}
+
+	async archiveFocusedCard(): Promise<void> {
+		const focused = this.getFocusedCard();
+		if (!focused) return;
+
+		this.focusedCardId = this.getFocusSuccessor(focused.card.id);
+		await this.archiveCard(focused.card, focused.columnId);
+	}
+
+	async deleteFocusedCard(): Promise<void> {
+		const focused = this.getFocusedCard();
+		if (!focused) return;
+
+		const confirmed = await this.showConfirmDialog('Delete Card', `Delete "${focused.card.title}"? Use Undo to bring it back.`);
+		if (!confirmed) return;
+
+		this.focusedCardId = this.getFocusSuccessor(focused.card.id);
+		await this.plugin.dataManager.removeCardFromColumn(this.board.id, focused.columnId, focused.card.id);
+		this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+		await this.renderBoard();
+		this.plugin.showUndoNotice(`Deleted card "${focused.card.title}"`);
+	}
+
+	/**
+	 * The card to focus once a card leaves the board: the one below it, else the one above
+	 */
+	private getFocusSuccessor(cardId: string): string | null {
+		const cell = this.getNavigationCells().find(c => c.cardIds.includes(cardId));
+		if (!cell) return null;
+
+		const index = cell.cardIds.indexOf(cardId);
+		return cell.cardIds[index + 1] || cell.cardIds[index - 1] || null;
+	}
+
+	/**
+	 * Search box, tag chips and toggles above the columns. Changes are applied to the
+	 * rendered cards directly, so typing doesn't re-render the board.
+	 */
+	private renderFilterBar(contentEl: HTMLElement): void {
+		this.loadFilter();
+		const barEl = contentEl.createEl('div', { cls: 'crystal-board-filter-bar' });
+		this.filterBarEl = barEl;
+
+		const searchInput = barEl.createEl('input', {
+			type: 'search',
+			cls: 'crystal-board-filter-search',
+			attr: { placeholder: 'Filter cards...', 'aria-label': 'Filter cards' }
+		});
+		searchInput.value = this.filter.query;
+		searchInput.oninput = () => this.updateFilter({ query: searchInput.value });
+
+		const chips: { el: HTMLElement; isActive: () => boolean }[] = [];
+		const addChip = (text: string, cls: string, isActive: () => boolean, toggle: () => void) => {
+			const chipEl = barEl.createEl('button', { text, cls: `crystal-board-filter-chip ${cls}` });
+			chipEl.toggleClass('is-active', isActive());
+			chipEl.onclick = () => {
+				toggle();
+				chipEl.toggleClass('is-active', isActive());
+			};
+			chips.push({ el: chipEl, isActive });
+		};
+
+		addChip('📝 Has notes', '', () => this.filter.hasNotes,
+			() => this.updateFilter({ hasNotes: !this.filter.hasNotes }));
+		addChip('🔗 Unread links', '', () => this.filter.hasUnreadLinks,
+			() => this.updateFilter({ hasUnreadLinks: !this.filter.hasUnreadLinks }));
+
+		const todoSelect = barEl.createEl('select', {
+			cls: 'dropdown crystal-board-filter-todos',
+			attr: { 'aria-label': 'Filter by tasks' }
+		});
+		todoSelect.createEl('option', { text: 'Any tasks', value: 'any' });
+		todoSelect.createEl('option', { text: 'Open tasks', value: 'open' });
+		todoSelect.createEl('option', { text: 'All tasks done', value: 'complete' });
+		todoSelect.createEl('option', { text: 'No tasks', value: 'none' });
+		todoSelect.value = this.filter.todoState;
+		todoSelect.onchange = () => this.updateFilter({ todoState: todoSelect.value as TodoFilterState });
+
+		const boardTags = new Set<string>();
+		this.board.columns.forEach(column => column.cards.forEach(card => card.tags.forEach(tag => boardTags.add(tag))));
+		for (const tag of [...boardTags].sort((a, b) => a.localeCompare(b))) {
+			addChip(tag, 'crystal-board-filter-tag', () => this.filter.tags.includes(tag), () => {
+				const tags = this.filter.tags.includes(tag)
+					? this.filter.tags.filter(t => t !== tag)
+					: [...this.filter.tags, tag];
+				this.updateFilter({ tags });
+			});
+		}
+
+		const clearBtn = barEl.createEl('button', { text: '✕ Clear', cls: 'crystal-board-filter-clear' });
+		clearBtn.onclick = () => {
+			this.updateFilter({ ...EMPTY_BOARD_FILTER });
+			searchInput.value = '';
+			todoSelect.value = 'any';
+			chips.forEach(chip => chip.el.toggleClass('is-active', chip.isActive()));
+		};
+	}
+
+	private loadFilter(): void {
+		if (this.filterBoardId === this.board.id) return;
+
+		const saved = this.app.loadLocalStorage(`crystal-boards-filter-${this.board.id}`);
+		this.filter = { ...EMPTY_BOARD_FILTER, ...(saved || {}) };
+		this.filterBoardId = this.board.id;
+	}
+
+	private updateFilter(changes: Partial<BoardFilter>): void {
+		this.filter = { ...this.filter, ...changes };
+		this.app.saveLocalStorage(
+			`crystal-boards-filter-${this.board.id}`,
+			isFilterActive(this.filter) ? this.filter : null
+		);
+		this.applyFilter();
+	}
+
+	/**
+	 * Show or hide the rendered cards according to the filter and update the column and lane counts
+	 */
+	private applyFilter(): void {
+		this.filterBarEl?.toggleClass('is-active', isFilterActive(this.filter));
+
+		const cardEls = new Map<string, HTMLElement>();
+		this.contentEl.querySelectorAll('.crystal-card[data-card-id]').forEach(el => {
+			cardEls.set(el.getAttribute('data-card-id') || '', el as HTMLElement);
+		});
+		const hasLanes = getSwimlanes(this.board).length > 0;
+		const laneCounts = new Map<string, { shown: number; total: number }>();
+
+		for (const column of this.board.columns) {
+			// Cards left out by the due date view aren't shown either
+			const viewCardIds = new Set(this.getVisibleCards(column).map(card => card.id));
+
+			let shown = 0;
+			for (const card of column.cards) {
+				const visible = viewCardIds.has(card.id) && cardMatchesFilter(card, this.filter);
+				cardEls.get(card.id)?.toggleClass('crystal-card-filtered-out', !visible);
+				if (visible) shown++;
+
+				if (hasLanes) {
+					const laneKey = getCardLaneKey(this.board, card);
+					const counts = laneCounts.get(laneKey) || { shown: 0, total: 0 };
+					counts.total++;
+					if (visible) counts.shown++;
+					laneCounts.set(laneKey, counts);
+				}
+			}
+
+			const countEl = this.contentEl.querySelector(`.crystal-column[data-column-id="${column.id}"] .crystal-column-count`);
+			countEl?.setText(this.formatColumnCount(column, shown));
+		}
+
+		this.contentEl.querySelectorAll('.crystal-swimlane-header').forEach(laneHeaderEl => {
+			const counts = laneCounts.get(laneHeaderEl.getAttribute('data-lane') || '') || { shown: 0, total: 0 };
+			laneHeaderEl.querySelector('.crystal-swimlane-count')?.setText(
+				counts.shown === counts.total ? `${counts.total}` : `${counts.shown} of ${counts.total}`
+			);
+		});
+	}
+
+	/**
+	 * Column header count: shown cards when filtered, then total against the WIP limit if set
+	 */
+	private formatColumnCount(column: Column, shown: number): string {
+		const total = column.wipLimit ? `${column.cards.length}/${column.wipLimit}` : `${column.cards.length}`;
+		return shown === column.cards.length ? total : `${shown} of ${total}`;
+	}
+
+	/**
+	 * Cards of a column in display order, after the due date sort or filter
+	 */
+	private getVisibleCards(column: Column): Card[] {
+		switch (this.dueDateView) {
+			case 'sort':
+				return [...column.cards].sort(compareByDueDate);
+			case 'this-week':
+				return column.cards.filter(isDueThisWeek).sort(compareByDueDate);
+			default:
+				return column.cards;
+		}
+	}
 
 	async renderCard(container: HTMLElement, card: Card, columnId: string): Promise<void> {
 		const cardEl = container.createEl('div', { 
@@ -587,6 +1326,16 @@ export class BoardView extends ItemView {
 			cardEl.addClass('crystal-card-selected');
 		}
 
+		// Focusable for keyboard navigation; clicking a card focuses it too
+		cardEl.tabIndex = 0;
+		cardEl.toggleClass('crystal-card-focused', this.focusedCardId === card.id);
+		cardEl.addEventListener('focus', () => this.markFocusedCard(card.id));
+
+		const dueStatus = getDueStatus(card);
+		if (dueStatus) {
+			cardEl.addClass(`crystal-card-${dueStatus}`);
+		}
+
 		// Selection checkbox
 		const selectionEl = cardEl.createEl('div', { cls: 'crystal-card-selection' });
 		const checkbox = selectionEl.createEl('input', {
@@ -612,93 +1361,100 @@ export class BoardView extends ItemView {
 		const contentEl = cardEl.createEl('div', { cls: 'crystal-card-content' });
 		contentEl.createEl('h4', { text: card.title, cls: 'crystal-card-title' });
 
-		// Description preview (first 100 characters)
-		if (card.description) {
-			const descPreview = card.description.length > 100 
-				? card.description.substring(0, 100) + '...'
-				: card.description;
-			contentEl.createEl('p', { text: descPreview, cls: 'crystal-card-description' });
-		}
+		// Compact boards show titles only
+		if (this.board.compactCards) {
+			cardEl.addClass('crystal-card-compact');
+		} else {
+			// Description preview (first 100 characters)
+			if (card.description) {
+				const descPreview = card.description.length > 100 
+					? card.description.substring(0, 100) + '...'
+					: card.description;
+				contentEl.createEl('p', { text: descPreview, cls: 'crystal-card-description' });
+			}
+
+			this.renderTaskMetadata(contentEl, card);
 
-		// Progress bar for todos (if any)
-		if (card.todos && card.todos.length > 0) {
-			const completedTodos = card.todos.filter(todo => todo.completed).length;
-			const totalTodos = card.todos.length;
-			const percentage = (completedTodos / totalTodos) * 100;
+			// Progress bar for todos (if any)
+			if (card.todos && card.todos.length > 0) {
+				const completedTodos = card.todos.filter(todo => todo.completed).length;
+				const totalTodos = card.todos.length;
+				const percentage = (completedTodos / totalTodos) * 100;
 
-			const progressContainer = contentEl.createEl('div', { cls: 'crystal-card-progress' });
-			const progressBar = progressContainer.createEl('div', { cls: 'crystal-card-progress-bar' });
-			const progressFill = progressBar.createEl('div', { cls: 'crystal-card-progress-fill' });
-			progressFill.style.width = `${percentage}%`;
+				const progressContainer = contentEl.createEl('div', { cls: 'crystal-card-progress' });
+				const progressBar = progressContainer.createEl('div', { cls: 'crystal-card-progress-bar' });
+				const progressFill = progressBar.createEl('div', { cls: 'crystal-card-progress-fill' });
+				progressFill.style.width = `${percentage}%`;
 			
-			progressContainer.createEl('div', { 
-				cls: 'crystal-card-progress-text',
-				text: `${completedTodos}/${totalTodos} tasks`
-			});
-		}
-
-		// Tags
-		if (card.tags.length > 0) {
-			const tagsEl = contentEl.createEl('div', { cls: 'crystal-card-tags' });
-			// Show max 3 tags, then "+"
-			const visibleTags = card.tags.slice(0, 3);
-			for (const tag of visibleTags) {
-				tagsEl.createEl('span', { text: tag, cls: 'crystal-card-tag' });
-			}
-			if (card.tags.length > 3) {
-				tagsEl.createEl('span', { 
-					text: `+${card.tags.length - 3}`, 
-					cls: 'crystal-card-tag crystal-card-tag-more' 
+				progressContainer.createEl('div', { 
+					cls: 'crystal-card-progress-text',
+					text: `${completedTodos}/${totalTodos} tasks`
 				});
 			}
-		}
 
-		// Note links count with hover previews
-		if (card.noteLinks && card.noteLinks.length > 0) {
-			const notesCount = contentEl.createEl('div', { cls: 'crystal-card-notes-count' });
-			
-			// Create individual note links with hover previews
-			card.noteLinks.forEach((notePath, index) => {
-				const file = this.app.vault.getAbstractFileByPath(notePath);
-				if (file instanceof TFile) {
-					const noteLink = notesCount.createEl('span', {
-						text: file.basename,
-						cls: 'crystal-card-note-link'
+			// Tags
+			if (card.tags.length > 0) {
+				const tagsEl = contentEl.createEl('div', { cls: 'crystal-card-tags' });
+				// Show max 3 tags, then "+"
+				const visibleTags = card.tags.slice(0, 3);
+				for (const tag of visibleTags) {
+					tagsEl.createEl('span', { text: tag, cls: 'crystal-card-tag' });
+				}
+				if (card.tags.length > 3) {
+					tagsEl.createEl('span', { 
+						text: `+${card.tags.length - 3}`, 
+						cls: 'crystal-card-tag crystal-card-tag-more' 
 					});
+				}
+			}
+
+			// Note links count with hover previews
+			if (card.noteLinks && card.noteLinks.length > 0) {
+				const notesCount = contentEl.createEl('div', { cls: 'crystal-card-notes-count' });
+			
+				// Create individual note links with hover previews
+				card.noteLinks.forEach((notePath, index) => {
+					const file = this.app.vault.getAbstractFileByPath(notePath);
+					if (file instanceof TFile) {
+						const noteLink = notesCount.createEl('span', {
+							text: file.basename,
+							cls: 'crystal-card-note-link'
+						});
 					
-					// Add click to open note in right pane
-					noteLink.onclick = (e) => {
-						e.stopPropagation();
-						// Open in right pane
-						this.app.workspace.getLeaf('split', 'vertical').openFile(file);
-					};
+						// Add click to open note in right pane
+						noteLink.onclick = (e) => {
+							e.stopPropagation();
+							// Open in right pane
+							this.app.workspace.getLeaf('split', 'vertical').openFile(file);
+						};
 					
-					// Add hover preview functionality
-					this.createNoteHoverPreview(noteLink, file);
+						// Add hover preview functionality
+						this.createNoteHoverPreview(noteLink, file);
 					
-					// Add separator if not last item
-					if (index < card.noteLinks.length - 1) {
-						notesCount.createEl('span', { text: ' • ', cls: 'crystal-note-separator' });
+						// Add separator if not last item
+						if (index < card.noteLinks.length - 1) {
+							notesCount.createEl('span', { text: ' • ', cls: 'crystal-note-separator' });
+						}
 					}
-				}
-			});
-			
-			// Add count summary
-			if (card.noteLinks.length > 1) {
-				notesCount.createEl('span', {
-					text: ` (${card.noteLinks.length} notes)`,
-					cls: 'crystal-card-notes-summary'
 				});
+			
+				// Add count summary
+				if (card.noteLinks.length > 1) {
+					notesCount.createEl('span', {
+						text: ` (${card.noteLinks.length} notes)`,
+						cls: 'crystal-card-notes-summary'
+					});
+				}
 			}
-		}
 
-		// Research URLs count
-		if (card.researchUrls && card.researchUrls.length > 0) {
-			const urlsCount = contentEl.createEl('div', { cls: 'crystal-card-urls-count' });
-			urlsCount.createEl('span', { 
-				text: `🔗 ${card.researchUrls.length} link${card.researchUrls.length === 1 ? '' : 's'}`,
-				cls: 'crystal-card-url-count-text'
-			});
+			// Research URLs count
+			if (card.researchUrls && card.researchUrls.length > 0) {
+				const urlsCount = contentEl.createEl('div', { cls: 'crystal-card-urls-count' });
+				urlsCount.createEl('span', { 
+					text: `🔗 ${card.researchUrls.length} link${card.researchUrls.length === 1 ? '' : 's'}`,
+					cls: 'crystal-card-url-count-text'
+				});
+			}
 		}
 
 		// Card actions
@@ -714,17 +1470,70 @@ export class BoardView extends ItemView {
 			this.openCardModal(card, columnId);
 		};
 
-		const deleteBtn = actionsEl.createEl('button', {
-			text: '🗑️',
+		const duplicateBtn = actionsEl.createEl('button', {
+			text: '⧉',
+			cls: 'crystal-card-action-btn',
+			attr: { 'aria-label': 'Duplicate card' }
+		});
+		duplicateBtn.onclick = (e) => {
+			e.stopPropagation();
+			this.duplicateCard(card, columnId);
+		};
+
+		const archiveBtn = actionsEl.createEl('button', {
+			text: '📦',
 			cls: 'crystal-card-action-btn crystal-card-delete-btn',
-			attr: { 'aria-label': 'Delete card' }
+			attr: { 'aria-label': 'Archive card' }
 		});
-		deleteBtn.onclick = (e) => {
+		archiveBtn.onclick = (e) => {
 			e.stopPropagation();
-			this.confirmDeleteCard(card, columnId);
+			this.archiveCard(card, columnId);
 		};
 	}
 
+	/**
+	 * Priority, dates and recurrence read from the Tasks plugin metadata of the source task
+	 */
+	private renderTaskMetadata(container: HTMLElement, card: Card): void {
+		const items: { text: string; cls: string; label: string }[] = [];
+
+		if (card.priority) {
+			items.push({ text: `${PRIORITY_EMOJI[card.priority]} ${card.priority}`, cls: `crystal-card-priority-${card.priority}`, label: 'Priority' });
+		}
+		if (card.startDate) {
+			items.push({ text: `🛫 ${card.startDate}`, cls: 'crystal-card-start', label: 'Start date' });
+		}
+		if (card.scheduledDate) {
+			items.push({ text: `⏳ ${card.scheduledDate}`, cls: 'crystal-card-scheduled', label: 'Scheduled date' });
+		}
+		if (card.dueDate) {
+			const dueStatus = getDueStatus(card);
+			const statusLabels = { 'overdue': 'Overdue', 'due-today': 'Due today', 'due-soon': 'Due soon' };
+			items.push({
+				text: `📅 ${card.dueDate}`,
+				cls: dueStatus ? `crystal-card-due crystal-card-due-${dueStatus}` : 'crystal-card-due',
+				label: dueStatus ? statusLabels[dueStatus] : 'Due date'
+			});
+		}
+		if (card.recurrence) {
+			items.push({ text: `🔁 ${card.recurrence}`, cls: 'crystal-card-recurrence', label: 'Recurrence' });
+		}
+		if (card.doneDate) {
+			items.push({ text: `✅ ${card.doneDate}`, cls: 'crystal-card-done', label: 'Done date' });
+		}
+
+		if (items.length === 0) return;
+
+		const metaEl = container.createEl('div', { cls: 'crystal-card-meta' });
+		for (const item of items) {
+			metaEl.createEl('span', {
+				text: item.text,
+				cls: `crystal-card-meta-item ${item.cls}`,
+				attr: { 'aria-label': item.label }
+			});
+		}
+	}
+
 	private createNoteHoverPreview(element: HTMLElement, file: TFile): void {
 		let hoverTimeout: NodeJS.Timeout | null = null;
 		let previewEl: HTMLElement | null = null;
@@ -902,13 +1711,13 @@ export class BoardView extends ItemView {
 	}
 
 	openAddColumnModal(): void {
-		new ColumnModal(this.app, this.plugin, this.board, null, (column) => {
+		new ColumnModal(this.app, this.plugin, this.board, null, this.cardTemplates, (column) => {
 			this.addColumn(column);
 		}).open();
 	}
 
 	openEditColumnModal(column: Column): void {
-		new ColumnModal(this.app, this.plugin, this.board, column, (updatedColumn) => {
+		new ColumnModal(this.app, this.plugin, this.board, column, this.cardTemplates, (updatedColumn) => {
 			this.updateColumn(updatedColumn);
 		}).open();
 	}
@@ -916,7 +1725,7 @@ export class BoardView extends ItemView {
 	async confirmDeleteColumn(column: Column): Promise<void> {
 		const confirmed = await this.showConfirmDialog(
 			'Delete Column',
-			`Are you sure you want to delete "${column.name}"? All cards in this column will be lost.`
+			`Are you sure you want to delete "${column.name}" and all of its cards?`
 		);
 		
 		if (confirmed) {
@@ -927,11 +1736,27 @@ export class BoardView extends ItemView {
 				await this.renderBoard(); // Full re-render needed to remove column
 				// Column sizing will be applied automatically by renderBoard
 			}
+			this.plugin.showUndoNotice(`Deleted column "${column.name}"`);
 		}
 	}
 
-	openAddCardModal(columnId: string): void {
-		const newCard: Card = {
+	async duplicateColumn(column: Column, includeCards: boolean): Promise<void> {
+		const copy = await this.plugin.dataManager.duplicateColumn(this.board.id, column.id, includeCards);
+		if (!copy) return;
+
+		this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+		await this.renderBoard();
+		this.plugin.showUndoNotice(`Duplicated column "${column.name}"`);
+	}
+
+	/**
+	 * Open the modal for a new card. Without a template ID the column's default template
+	 * is used; null starts from a blank card.
+	 */
+	openAddCardModal(columnId: string, laneKey?: string, templateId?: string | null): void {
+		const column = this.board.columns.find(col => col.id === columnId);
+		const template = this.cardTemplates.find(t => t.id === (templateId === undefined ? column?.defaultTemplateId : templateId));
+		let newCard: Card = template ? this.plugin.cardTemplates.createCard(template, this.board, column) : {
 			id: this.generateId(),
 			title: '',
 			description: '',
@@ -942,6 +1767,11 @@ export class BoardView extends ItemView {
 			created: Date.now(),
 			modified: Date.now()
 		};
+
+		// Cards added inside a swimlane start out in that lane
+		if (laneKey !== undefined) {
+			newCard = assignCardToLane(this.board, newCard, laneKey);
+		}
 		
 		new CardModal(this.app, this.plugin, newCard, this.board.id, columnId, async (card) => {
 			if (card.title.trim()) {
@@ -952,26 +1782,77 @@ export class BoardView extends ItemView {
 	}
 
 	openCardModal(card: Card, columnId: string): void {
-		new CardModal(this.app, this.plugin, card, this.board.id, columnId, async (updatedCard) => {
+		// Edit a copy so cancelled edits never leak into the board and undo sees the original
+		const cardCopy: Card = JSON.parse(JSON.stringify(card));
+		new CardModal(this.app, this.plugin, cardCopy, this.board.id, columnId, async (updatedCard) => {
 			await this.plugin.dataManager.updateCard(this.board.id, columnId, updatedCard);
 			await this.renderBoard();
 		}).open();
 	}
 
-	async confirmDeleteCard(card: Card, columnId: string): Promise<void> {
+	async archiveCard(card: Card, columnId: string): Promise<void> {
+		const archived = await this.plugin.dataManager.archiveCard(this.board.id, columnId, card.id);
+		if (!archived) return;
+
+		const updatedBoard = this.plugin.dataManager.getBoardById(this.board.id);
+		if (updatedBoard) {
+			this.board = updatedBoard;
+			this.renderBoard();
+		}
+		this.plugin.showUndoNotice(`Archived card "${card.title}"`);
+	}
+
+	async duplicateCard(card: Card, columnId: string): Promise<void> {
+		const column = this.board.columns.find(col => col.id === columnId);
+		const blockReason = column && getWipBlockReason(column, 1);
+		if (blockReason) {
+			new Notice(`🚫 ${blockReason}`, 5000);
+			return;
+		}
+
+		const copy = await this.plugin.dataManager.duplicateCard(this.board.id, columnId, card.id);
+		if (!copy) return;
+
+		this.focusedCardId = copy.id;
+		this.board = this.plugin.dataManager.getBoardById(this.board.id) || this.board;
+		await this.renderBoard();
+		this.plugin.showUndoNotice(`Duplicated card "${card.title}"`);
+	}
+
+	openArchivePanel(query = ''): void {
+		new ArchivedCardsModal(this.app, this, query).open();
+	}
+
+	async restoreArchivedCard(archived: ArchivedCard): Promise<void> {
+		const columnName = await this.plugin.dataManager.restoreArchivedCard(this.board.id, archived.card.id);
+		if (!columnName) {
+			new Notice('This board has no column to restore the card to');
+			return;
+		}
+
+		const updatedBoard = this.plugin.dataManager.getBoardById(this.board.id);
+		if (updatedBoard) {
+			this.board = updatedBoard;
+			await this.renderBoard();
+		}
+		new Notice(`Restored "${archived.card.title}" to ${columnName}`);
+	}
+
+	async purgeArchivedCards(cardIds: string[]): Promise<boolean> {
 		const confirmed = await this.showConfirmDialog(
-			'Delete Card',
-			`Are you sure you want to delete "${card.title}"?`
+			'Delete Archived Cards',
+			`Permanently delete ${cardIds.length} archived card${cardIds.length === 1 ? '' : 's'}?`
 		);
-		
-		if (confirmed) {
-			await this.plugin.dataManager.removeCardFromColumn(this.board.id, columnId, card.id);
-			const updatedBoard = this.plugin.dataManager.getBoardById(this.board.id);
-			if (updatedBoard) {
-				this.board = updatedBoard;
-				this.renderBoard();
-			}
+		if (!confirmed) return false;
+
+		await this.plugin.dataManager.purgeArchivedCards(this.board.id, cardIds);
+		const updatedBoard = this.plugin.dataManager.getBoardById(this.board.id);
+		if (updatedBoard) {
+			this.board = updatedBoard;
+			await this.renderBoard();
 		}
+		this.plugin.showUndoNotice(`Deleted ${cardIds.length} archived card${cardIds.length === 1 ? '' : 's'}`);
+		return true;
 	}
 
 	async addColumn(column: Column): Promise<void> {
@@ -1049,9 +1930,11 @@ export class BoardView extends ItemView {
 		const column = this.board.columns.find(col => col.id === columnId);
 		if (!column) return;
 
-		// Add all card IDs from this column to selection
-		for (const card of column.cards) {
-			this.selectedCards.add(card.id);
+		// Add the card IDs shown in this column to selection, skipping filtered-out cards
+		for (const card of this.getVisibleCards(column)) {
+			if (cardMatchesFilter(card, this.filter)) {
+				this.selectedCards.add(card.id);
+			}
 		}
 		
 		// Re-render to show selection state
@@ -1127,12 +2010,12 @@ export class BoardView extends ItemView {
 		});
 		tagsBtn.onclick = () => this.openBulkTagModal();
 
-		// Delete button
-		const deleteBtn = actionsContainer.createEl('button', {
-			text: '🗑️ Delete',
+		// Archive button
+		const archiveBtn = actionsContainer.createEl('button', {
+			text: '📦 Archive',
 			cls: 'crystal-bulk-action-btn crystal-bulk-action-delete'
 		});
-		deleteBtn.onclick = () => this.confirmBulkDelete();
+		archiveBtn.onclick = () => this.executeBulkArchive();
 	}
 
 	private updateBulkActionToolbar(): void {
@@ -1152,25 +2035,19 @@ export class BoardView extends ItemView {
 	}
 
 	// Bulk action methods
-	async confirmBulkDelete(): Promise<void> {
-		if (this.selectedCards.size === 0) return;
-
-		const modal = new BulkDeleteModal(this.app, this.selectedCards.size, async () => {
-			await this.executeBulkDelete();
-		});
-		modal.open();
-	}
-
-	private async executeBulkDelete(): Promise<void> {
+	private async executeBulkArchive(): Promise<void> {
 		const selectedCardIds = Array.from(this.selectedCards);
-		
-		// Find and delete each selected card
-		for (const column of this.board.columns) {
-			const cardsToDelete = column.cards.filter(card => selectedCardIds.includes(card.id));
-			for (const card of cardsToDelete) {
-				await this.plugin.dataManager.removeCardFromColumn(this.board.id, column.id, card.id);
+		if (selectedCardIds.length === 0) return;
+		
+		// Archive each selected card as a single undoable step
+		await this.plugin.dataManager.history.transaction(`Archive ${selectedCardIds.length} cards`, async () => {
+			for (const column of this.board.columns) {
+				const cardsToArchive = column.cards.filter(card => selectedCardIds.includes(card.id));
+				for (const card of cardsToArchive) {
+					await this.plugin.dataManager.archiveCard(this.board.id, column.id, card.id);
+				}
 			}
-		}
+		});
 
 		this.selectedCards.clear();
 		const updatedBoard = this.plugin.dataManager.getBoardById(this.board.id);
@@ -1178,6 +2055,7 @@ export class BoardView extends ItemView {
 			this.board = updatedBoard;
 			await this.renderBoard();
 		}
+		this.plugin.showUndoNotice(`Archived ${selectedCardIds.length} cards`);
 	}
 
 	private openBulkMoveModal(): void {
@@ -1201,14 +2079,25 @@ export class BoardView extends ItemView {
 			}
 		}
 
-		// Move each card
-		for (const { card, sourceColumnId } of cardsToMove) {
-			if (sourceColumnId !== targetColumnId) {
-				await this.plugin.dataManager.removeCardFromColumn(this.board.id, sourceColumnId, card.id);
-				await this.plugin.dataManager.addCardToColumn(this.board.id, targetColumnId, card);
-			}
+		// Strict WIP limits block the whole move rather than moving only some cards
+		const targetColumn = this.board.columns.find(col => col.id === targetColumnId);
+		const incomingCards = cardsToMove.filter(({ sourceColumnId }) => sourceColumnId !== targetColumnId).length;
+		const blockReason = targetColumn ? getWipBlockReason(targetColumn, incomingCards) : null;
+		if (blockReason) {
+			new Notice(`🚫 Can't move ${incomingCards} cards: ${blockReason}`, 6000);
+			return;
 		}
 
+		// Move each card as a single undoable step
+		await this.plugin.dataManager.history.transaction(`Move ${cardsToMove.length} cards`, async () => {
+			for (const { card, sourceColumnId } of cardsToMove) {
+				if (sourceColumnId !== targetColumnId) {
+					await this.plugin.dataManager.removeCardFromColumn(this.board.id, sourceColumnId, card.id);
+					await this.plugin.dataManager.addCardToColumn(this.board.id, targetColumnId, card);
+				}
+			}
+		});
+
 		this.selectedCards.clear();
 		const updatedBoard = this.plugin.dataManager.getBoardById(this.board.id);
 		if (updatedBoard) {
@@ -1228,35 +2117,37 @@ export class BoardView extends ItemView {
 	private async executeBulkTagAction(action: 'add' | 'remove' | 'replace', tags: string[]): Promise<void> {
 		const selectedCardIds = Array.from(this.selectedCards);
 
-		for (const column of this.board.columns) {
-			for (const card of column.cards) {
-				if (selectedCardIds.includes(card.id)) {
-					let updatedTags = [...card.tags];
-
-					switch (action) {
-						case 'add':
-							// Add new tags that aren't already present
-							for (const tag of tags) {
-								if (!updatedTags.includes(tag)) {
-									updatedTags.push(tag);
+		await this.plugin.dataManager.history.transaction(`Update tags on ${selectedCardIds.length} cards`, async () => {
+			for (const column of this.board.columns) {
+				for (const card of column.cards) {
+					if (selectedCardIds.includes(card.id)) {
+						let updatedTags = [...card.tags];
+
+						switch (action) {
+							case 'add':
+								// Add new tags that aren't already present
+								for (const tag of tags) {
+									if (!updatedTags.includes(tag)) {
+										updatedTags.push(tag);
+									}
 								}
-							}
-							break;
-						case 'remove':
-							// Remove specified tags
-							updatedTags = updatedTags.filter(tag => !tags.includes(tag));
-							break;
-						case 'replace':
-							// Replace all tags with new ones
-							updatedTags = [...tags];
-							break;
-					}
+								break;
+							case 'remove':
+								// Remove specified tags
+								updatedTags = updatedTags.filter(tag => !tags.includes(tag));
+								break;
+							case 'replace':
+								// Replace all tags with new ones
+								updatedTags = [...tags];
+								break;
+						}
 
-					const updatedCard = { ...card, tags: updatedTags, modified: Date.now() };
-					await this.plugin.dataManager.updateCard(this.board.id, column.id, updatedCard);
+						const updatedCard = { ...card, tags: updatedTags, modified: Date.now() };
+						await this.plugin.dataManager.updateCard(this.board.id, column.id, updatedCard);
+					}
 				}
 			}
-		}
+		});
 
 		this.selectedCards.clear();
 		const updatedBoard = this.plugin.dataManager.getBoardById(this.board.id);
@@ -1373,21 +2264,30 @@ class ColumnModal extends Modal {
 	onSubmit: (column: Column) => void;
 	columnName = '';
 	columnColor = '';
+	wipLimit = 0;
+	wipStrict = false;
+	templates: CardTemplate[];
+	defaultTemplateId = '';
 
 	constructor(
 		app: App, 
 		plugin: CrystalBoardsPlugin, 
 		board: Board, 
 		column: Column | null, 
+		templates: CardTemplate[],
 		onSubmit: (column: Column) => void
 	) {
 		super(app);
 		this.plugin = plugin;
 		this.board = board;
 		this.column = column;
+		this.templates = templates;
 		this.onSubmit = onSubmit;
 		this.columnName = column?.name || '';
 		this.columnColor = column?.color || '#E8E8E8';
+		this.wipLimit = column?.wipLimit || 0;
+		this.wipStrict = column?.wipStrict || false;
+		this.defaultTemplateId = column?.defaultTemplateId || '';
 	}
 
 	onOpen(): void {
@@ -1406,7 +2306,44 @@ class ColumnModal extends Modal {
 				text.inputEl.focus();
 			});
 
+		new Setting(contentEl)
+			.setName('WIP Limit')
+			.setDesc('Maximum number of cards in this column. Leave empty for no limit.')
+			.addText((text) => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text.setPlaceholder('No limit')
+					.setValue(this.wipLimit ? String(this.wipLimit) : '')
+					.onChange((value) => {
+						const limit = parseInt(value, 10);
+						this.wipLimit = isNaN(limit) || limit < 0 ? 0 : limit;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Enforce WIP Limit')
+			.setDesc('Block moving cards into the column when it is full, instead of only showing a warning')
+			.addToggle((toggle) => toggle
+				.setValue(this.wipStrict)
+				.onChange((value) => {
+					this.wipStrict = value;
+				}));
 
+		new Setting(contentEl)
+			.setName('Default Card Template')
+			.setDesc('Template that "+ Add Card" starts from in this column')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('', 'Blank card');
+				this.templates.forEach(template => dropdown.addOption(template.id, template.name));
+				// Keep a default whose template is currently missing, e.g. a renamed note
+				if (this.defaultTemplateId && !this.templates.some(template => template.id === this.defaultTemplateId)) {
+					dropdown.addOption(this.defaultTemplateId, `${this.defaultTemplateId} (missing)`);
+				}
+				dropdown.setValue(this.defaultTemplateId)
+					.onChange((value) => {
+						this.defaultTemplateId = value;
+					});
+			});
 
 		new Setting(contentEl)
 			.addButton((btn) => {
@@ -1440,6 +2377,9 @@ class ColumnModal extends Modal {
 			position: this.board.columns.length,
 			cards: []
 		};
+		column.wipLimit = this.wipLimit || undefined;
+		column.wipStrict = this.wipLimit ? this.wipStrict : undefined;
+		column.defaultTemplateId = this.defaultTemplateId || undefined;
 
 		this.onSubmit(column);
 		this.close();
@@ -1455,38 +2395,166 @@ class ColumnModal extends Modal {
 	}
 }
 
-// Bulk Action Modal Classes
-class BulkDeleteModal extends Modal {
-	private count: number;
-	private onConfirm: () => Promise<void>;
+/**
+ * Choose how a board is split into swimlanes
+ */
+class SwimlaneModal extends Modal {
+	private settings: SwimlaneSettings;
+	private onSubmit: (settings: SwimlaneSettings | undefined) => Promise<void>;
 
-	constructor(app: App, count: number, onConfirm: () => Promise<void>) {
+	constructor(app: App, settings: SwimlaneSettings | undefined, onSubmit: (settings: SwimlaneSettings | undefined) => Promise<void>) {
 		super(app);
-		this.count = count;
-		this.onConfirm = onConfirm;
+		this.settings = settings ? { ...settings } : { groupBy: 'none' };
+		this.onSubmit = onSubmit;
 	}
 
 	onOpen(): void {
+		this.render();
+	}
+
+	private render(): void {
 		const { contentEl } = this;
-		contentEl.createEl('h2', { text: 'Delete Selected Cards' });
-		
-		contentEl.createEl('p', { 
-			text: `Are you sure you want to delete ${this.count} selected card(s)? This action cannot be undone.`
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Swimlanes' });
+		contentEl.createEl('p', {
+			text: 'Split the board into rows. Dragging a card to another lane changes its tag, priority or lane.',
+			cls: 'setting-item-description'
 		});
 
-		const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
-		
-		const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
-		cancelBtn.onclick = () => this.close();
-		
-		const deleteBtn = buttonContainer.createEl('button', { 
-			text: 'Delete Cards', 
-			cls: 'mod-warning'
+		new Setting(contentEl)
+			.setName('Group cards by')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'No swimlanes')
+				.addOption('tag', 'Tag')
+				.addOption('priority', 'Priority')
+				.addOption('lane', 'Custom lane')
+				.setValue(this.settings.groupBy)
+				.onChange((value) => {
+					this.settings.groupBy = value as SwimlaneGrouping;
+					this.render();
+				}));
+
+		if (this.settings.groupBy === 'tag') {
+			new Setting(contentEl)
+				.setName('Lane tags')
+				.setDesc('Comma-separated tags, one lane each. Leave empty for a lane per tag on the board.')
+				.addText(text => text
+					.setPlaceholder('project-a, project-b')
+					.setValue((this.settings.tags || []).join(', '))
+					.onChange((value) => {
+						this.settings.tags = this.parseList(value);
+					}));
+		}
+
+		if (this.settings.groupBy === 'lane') {
+			new Setting(contentEl)
+				.setName('Lanes')
+				.setDesc('Comma-separated lane names. Lanes already used by cards are always shown.')
+				.addText(text => text
+					.setPlaceholder('Frontend, Backend')
+					.setValue((this.settings.lanes || []).join(', '))
+					.onChange((value) => {
+						this.settings.lanes = this.parseList(value);
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText('Cancel')
+					.onClick(() => {
+						this.close();
+					});
+			})
+			.addButton((btn) => {
+				btn.setButtonText('Save')
+					.setCta()
+					.onClick(async () => {
+						this.close();
+						await this.onSubmit(this.settings.groupBy === 'none' ? undefined : this.settings);
+					});
+			});
+	}
+
+	private parseList(value: string): string[] {
+		return value.split(',').map(item => item.trim().replace(/^#/, '')).filter(item => item);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Name a new board template made from the current board
+ */
+class SaveBoardTemplateModal extends Modal {
+	private board: Board;
+	private onSubmit: (name: string, description: string, includeCards: boolean) => Promise<void>;
+	private name: string;
+	private description = '';
+	private includeCards = false;
+
+	constructor(app: App, board: Board, onSubmit: (name: string, description: string, includeCards: boolean) => Promise<void>) {
+		super(app);
+		this.board = board;
+		this.onSubmit = onSubmit;
+		this.name = board.name;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Save Board as Template' });
+		contentEl.createEl('p', {
+			text: 'New boards can start from the columns, colors, WIP limits, emoji and cover image of this board.',
+			cls: 'setting-item-description'
 		});
-		deleteBtn.onclick = async () => {
-			await this.onConfirm();
-			this.close();
-		};
+
+		new Setting(contentEl)
+			.setName('Template Name')
+			.addText((text) => {
+				text.setValue(this.name)
+					.onChange((value) => {
+						this.name = value;
+					});
+				text.inputEl.focus();
+				text.inputEl.select();
+			});
+
+		new Setting(contentEl)
+			.setName('Description')
+			.addText((text) => text
+				.setPlaceholder('What the board is for')
+				.onChange((value) => {
+					this.description = value;
+				}));
+
+		const cardCount = this.board.columns.reduce((sum, col) => sum + col.cards.length, 0);
+		new Setting(contentEl)
+			.setName('Include Cards')
+			.setDesc(`Add the ${cardCount} current card${cardCount === 1 ? '' : 's'} as starter cards, keeping their title, description, tags, todos and links`)
+			.addToggle((toggle) => toggle
+				.setValue(this.includeCards)
+				.setDisabled(cardCount === 0)
+				.onChange((value) => {
+					this.includeCards = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton((btn) => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton((btn) => btn
+				.setButtonText('Save Template')
+				.setCta()
+				.onClick(async () => {
+					if (!this.name.trim()) {
+						new Notice('Give the template a name');
+						return;
+					}
+					await this.onSubmit(this.name.trim(), this.description.trim(), this.includeCards);
+					this.close();
+				}));
 	}
 
 	onClose(): void {
@@ -1495,6 +2563,44 @@ class BulkDeleteModal extends Modal {
 	}
 }
 
+/**
+ * Pick the card template a new card starts from, or a blank card
+ */
+class CardTemplateSuggestModal extends SuggestModal<CardTemplate | null> {
+	private templates: CardTemplate[];
+	private onChoose: (template: CardTemplate | null) => void;
+
+	constructor(app: App, templates: CardTemplate[], onChoose: (template: CardTemplate | null) => void) {
+		super(app);
+		this.templates = templates;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a card template...');
+	}
+
+	getSuggestions(query: string): (CardTemplate | null)[] {
+		const lowerQuery = query.toLowerCase();
+		const matches = this.templates.filter(template => template.name.toLowerCase().includes(lowerQuery));
+		return 'blank card'.includes(lowerQuery) ? [...matches, null] : matches;
+	}
+
+	renderSuggestion(template: CardTemplate | null, el: HTMLElement): void {
+		el.createEl('div', { text: template ? template.name : 'Blank card' });
+		if (template) {
+			const details = [
+				template.path ? template.path : 'Saved in settings',
+				template.todos.length > 0 ? `${template.todos.length} todos` : '',
+				template.tags.length > 0 ? template.tags.join(', ') : ''
+			].filter(detail => detail);
+			el.createEl('small', { text: details.join(' • '), cls: 'crystal-card-template-details' });
+		}
+	}
+
+	onChooseSuggestion(template: CardTemplate | null): void {
+		this.onChoose(template);
+	}
+}
+
+// Bulk Action Modal Classes
 class BulkMoveModal extends Modal {
 	private plugin: CrystalBoardsPlugin;
 	private board: Board;
@@ -1790,3 +2896,109 @@ export class CoverImageEditorModal extends Modal {
 	}
 }
 
+
+class ArchivedCardsModal extends Modal {
+	private view: BoardView;
+	private query: string;
+	private listEl: HTMLElement;
+
+	constructor(app: App, view: BoardView, query = '') {
+		super(app);
+		this.view = view;
+		this.query = query;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('crystal-archive-modal');
+		contentEl.createEl('h2', { text: `Archived Cards — ${this.view.board.name}` });
+
+		const searchInput = contentEl.createEl('input', {
+			cls: 'crystal-archive-search',
+			attr: { type: 'text', placeholder: 'Search archived cards...' }
+		});
+		searchInput.value = this.query;
+		searchInput.addEventListener('input', () => {
+			this.query = searchInput.value;
+			this.renderList();
+		});
+
+		this.listEl = contentEl.createEl('div', { cls: 'crystal-archive-list' });
+		this.renderList();
+	}
+
+	private renderList(): void {
+		this.listEl.empty();
+
+		const archivedCards = this.view.board.archivedCards || [];
+		if (archivedCards.length === 0) {
+			this.listEl.createEl('p', {
+				text: 'No archived cards on this board.',
+				cls: 'crystal-archive-empty'
+			});
+			return;
+		}
+
+		const matchingIds = new Set(
+			this.view.plugin.dataManager.searchCards(this.query, this.view.board.id)
+				.filter(result => result.archived)
+				.map(result => result.card.id)
+		);
+		const visible = archivedCards.filter(archived => matchingIds.has(archived.card.id));
+
+		if (visible.length === 0) {
+			this.listEl.createEl('p', {
+				text: 'No archived cards match your search.',
+				cls: 'crystal-archive-empty'
+			});
+			return;
+		}
+
+		for (const archived of visible) {
+			const itemEl = this.listEl.createEl('div', { cls: 'crystal-archive-item' });
+			const infoEl = itemEl.createEl('div', { cls: 'crystal-archive-item-info' });
+			infoEl.createEl('div', { text: archived.card.title, cls: 'crystal-archive-item-title' });
+			infoEl.createEl('div', {
+				text: `From ${archived.columnName} · archived ${new Date(archived.archivedAt).toLocaleDateString()}`,
+				cls: 'crystal-archive-item-meta'
+			});
+
+			if (archived.card.tags.length > 0) {
+				const tagsEl = infoEl.createEl('div', { cls: 'crystal-card-tags' });
+				archived.card.tags.forEach(tag => {
+					tagsEl.createEl('span', { text: tag, cls: 'crystal-card-tag' });
+				});
+			}
+
+			const actionsEl = itemEl.createEl('div', { cls: 'crystal-archive-item-actions' });
+			const restoreBtn = actionsEl.createEl('button', { text: 'Restore' });
+			restoreBtn.onclick = async () => {
+				await this.view.restoreArchivedCard(archived);
+				this.renderList();
+			};
+
+			const purgeBtn = actionsEl.createEl('button', { text: 'Delete', cls: 'mod-warning' });
+			purgeBtn.onclick = async () => {
+				if (await this.view.purgeArchivedCards([archived.card.id])) {
+					this.renderList();
+				}
+			};
+		}
+
+		const buttonContainer = this.listEl.createEl('div', { cls: 'modal-button-container' });
+		const purgeAllBtn = buttonContainer.createEl('button', {
+			text: `Delete ${visible.length === archivedCards.length ? 'All' : 'Shown'} (${visible.length})`,
+			cls: 'mod-warning'
+		});
+		purgeAllBtn.onclick = async () => {
+			if (await this.view.purgeArchivedCards(visible.map(archived => archived.card.id))) {
+				this.renderList();
+			}
+		};
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
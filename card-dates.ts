@@ -0,0 +1,43 @@
+import { moment } from 'obsidian';
+import { Card } from './types';
+
+// Card dates are stored as ISO dates (YYYY-MM-DD), so they sort and compare as strings
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Cards due within this many days count as due soon
+const DUE_SOON_DAYS = 3;
+
+export type DueStatus = 'overdue' | 'due-today' | 'due-soon';
+
+/**
+ * How urgent a card's due date is, or null when it has none, is far off or the card is done
+ */
+export function getDueStatus(card: Card): DueStatus | null {
+	if (!card.dueDate || card.doneDate) return null;
+
+	const today = moment().format('YYYY-MM-DD');
+	if (card.dueDate < today) return 'overdue';
+	if (card.dueDate === today) return 'due-today';
+
+	const soon = moment().add(DUE_SOON_DAYS, 'days').format('YYYY-MM-DD');
+	return card.dueDate <= soon ? 'due-soon' : null;
+}
+
+/**
+ * Whether a card is due by the end of the current week. Overdue cards count too,
+ * since they still need doing.
+ */
+export function isDueThisWeek(card: Card): boolean {
+	if (!card.dueDate || card.doneDate) return false;
+	return card.dueDate <= moment().endOf('week').format('YYYY-MM-DD');
+}
+
+/**
+ * Sort order for cards by due date, earliest first and cards without one last
+ */
+export function compareByDueDate(a: Card, b: Card): number {
+	if (!a.dueDate || !b.dueDate) {
+		return (a.dueDate ? 0 : 1) - (b.dueDate ? 0 : 1);
+	}
+	return a.dueDate.localeCompare(b.dueDate);
+}
@@ -17,6 +17,8 @@ export class CardModal extends Modal {
 	private cardNoteLinks: string[];
 	private cardTodos: TodoItem[];
 	private cardResearchUrls: ResearchUrl[];
+	private cardStartDate: string;
+	private cardDueDate: string;
 	
 	private noteSearchResults: TFile[] = [];
 	private allMarkdownFiles: TFile[] = [];
@@ -45,6 +47,8 @@ export class CardModal extends Modal {
 		this.cardNoteLinks = [...card.noteLinks];
 		this.cardTodos = [...card.todos];
 		this.cardResearchUrls = [...card.researchUrls];
+		this.cardStartDate = card.startDate || '';
+		this.cardDueDate = card.dueDate || '';
 		
 		// Load all markdown files for note search
 		this.allMarkdownFiles = this.app.vault.getMarkdownFiles();
@@ -195,6 +199,13 @@ export class CardModal extends Modal {
 		// Separator after Tags
 		scrollEl.createEl('div', { cls: 'crystal-section-separator' });
 
+		// Dates (light background)
+		const datesSection = scrollEl.createEl('div', { cls: 'crystal-modal-section crystal-section-light' });
+		this.renderDatesSection(datesSection);
+
+		// Separator after Dates
+		scrollEl.createEl('div', { cls: 'crystal-section-separator' });
+
 		// Section 3: Description (PROMINENT - Most Important Section)
 		const descriptionSection = scrollEl.createEl('div', { cls: 'crystal-modal-section crystal-section-description crystal-section-light' });
 		
@@ -354,6 +365,8 @@ You can include:
 		this.card.noteLinks = [...this.cardNoteLinks];
 		this.card.todos = [...this.cardTodos];
 		this.card.researchUrls = [...this.cardResearchUrls];
+		this.card.startDate = this.cardStartDate || undefined;
+		this.card.dueDate = this.cardDueDate || undefined;
 		
 		// Call the onSave callback
 		this.onSave(this.card);
@@ -422,6 +435,31 @@ You can include:
 			});
 	}
 
+	private renderDatesSection(container: HTMLElement): void {
+		const section = container.createEl('div', { cls: 'crystal-card-section' });
+		section.createEl('h3', { text: 'Dates', cls: 'crystal-section-title' });
+
+		new Setting(section)
+			.setName('Start date')
+			.addText((text) => {
+				text.inputEl.type = 'date';
+				text.setValue(this.cardStartDate)
+					.onChange((value) => {
+						this.cardStartDate = value;
+					});
+			});
+
+		new Setting(section)
+			.setName('Due date')
+			.addText((text) => {
+				text.inputEl.type = 'date';
+				text.setValue(this.cardDueDate)
+					.onChange((value) => {
+						this.cardDueDate = value;
+					});
+			});
+	}
+
 	private updateTagsDisplay(container: HTMLElement): void {
 		container.empty();
 		
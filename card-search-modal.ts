@@ -0,0 +1,108 @@
+import { App, SearchResult, SuggestModal, prepareFuzzySearch, renderMatches } from 'obsidian';
+import CrystalBoardsPlugin from './main';
+import { Card, CardSearchResult } from './types';
+
+// Results shown before anything is typed: the most recently modified cards
+const RECENT_CARD_COUNT = 20;
+const MAX_RESULTS = 50;
+
+interface ScoredResult {
+	result: CardSearchResult;
+	score: number;
+	titleMatch: SearchResult | null;
+}
+
+/**
+ * Fuzzy search over the cards of every board, including archived ones.
+ * Choosing a card opens its board with the card focused.
+ */
+export class CardSearchModal extends SuggestModal<ScoredResult> {
+	private plugin: CrystalBoardsPlugin;
+	private initialQuery: string;
+
+	constructor(app: App, plugin: CrystalBoardsPlugin, initialQuery = '') {
+		super(app);
+		this.plugin = plugin;
+		this.initialQuery = initialQuery;
+		this.limit = MAX_RESULTS;
+		this.setPlaceholder('Search cards across all boards...');
+		this.setInstructions([
+			{ command: '↑↓', purpose: 'to navigate' },
+			{ command: '↵', purpose: 'to open card' },
+			{ command: 'esc', purpose: 'to dismiss' }
+		]);
+	}
+
+	onOpen(): void {
+		super.onOpen();
+		if (this.initialQuery) {
+			this.inputEl.value = this.initialQuery;
+			this.inputEl.dispatchEvent(new Event('input'));
+		}
+	}
+
+	getSuggestions(query: string): ScoredResult[] {
+		const allCards = this.plugin.dataManager.searchCards('');
+
+		if (!query.trim()) {
+			return allCards
+				.filter(result => !result.archived)
+				.sort((a, b) => b.card.modified - a.card.modified)
+				.slice(0, RECENT_CARD_COUNT)
+				.map(result => ({ result, score: 0, titleMatch: null }));
+		}
+
+		const fuzzy = prepareFuzzySearch(query.trim());
+		const scored: ScoredResult[] = [];
+
+		for (const result of allCards) {
+			const titleMatch = fuzzy(result.card.title);
+			const fieldScores = this.getSearchFields(result.card)
+				.map(field => fuzzy(field))
+				.filter((match): match is SearchResult => match !== null)
+				.map(match => match.score);
+			if (!titleMatch && fieldScores.length === 0) continue;
+
+			// Title matches rank above matches in the rest of the card; archived cards rank last
+			let score = Math.max(titleMatch ? titleMatch.score + 1 : -Infinity, ...fieldScores);
+			if (result.archived) {
+				score -= 1;
+			}
+			scored.push({ result, score, titleMatch });
+		}
+
+		return scored.sort((a, b) => b.score - a.score);
+	}
+
+	renderSuggestion(item: ScoredResult, el: HTMLElement): void {
+		const { board, card, columnName, archived } = item.result;
+		el.addClass('crystal-card-search-item');
+
+		const titleEl = el.createEl('div', { cls: 'crystal-card-search-title' });
+		renderMatches(titleEl, card.title, item.titleMatch?.matches || null);
+
+		const breadcrumb = `${board.emoji ? `${board.emoji} ` : ''}${board.name} › ${columnName}${archived ? ' (archived)' : ''}`;
+		el.createEl('small', { text: breadcrumb, cls: 'crystal-card-search-breadcrumb' });
+
+		if (card.tags.length > 0) {
+			const tagsEl = el.createEl('div', { cls: 'crystal-card-search-tags' });
+			card.tags.slice(0, 5).forEach(tag => tagsEl.createEl('span', { text: tag, cls: 'crystal-card-tag' }));
+		}
+	}
+
+	async onChooseSuggestion(item: ScoredResult): Promise<void> {
+		await this.plugin.openBoard(item.result.board, item.result.card.id);
+	}
+
+	/**
+	 * Everything besides the title a card can be found by, matched one field at a time
+	 */
+	private getSearchFields(card: Card): string[] {
+		return [
+			card.description || '',
+			...card.tags,
+			...card.todos.map(todo => todo.text),
+			...card.researchUrls.map(url => url.title)
+		].filter(field => field.length > 0);
+	}
+}
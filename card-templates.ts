@@ -0,0 +1,140 @@
+import { App, TFile, TFolder, moment, normalizePath, parseFrontMatterTags } from 'obsidian';
+import CrystalBoardsPlugin from './main';
+import { Board, Card, CardTemplate, CardTemplateContent, Column } from './types';
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const CHECKLIST_PATTERN = /^\s*[-*+]\s+\[[ xX]\]\s+(.+)$/;
+const MARKDOWN_LINK_PATTERN = /^\s*[-*+]\s+\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)\s*$/;
+const BARE_URL_PATTERN = /^\s*(?:[-*+]\s+)?(https?:\/\/\S+)\s*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*(date|board|column)(?::([^}]+))?\s*\}\}/gi;
+
+/**
+ * Replace {{date}}, {{date:FORMAT}}, {{board}} and {{column}} in template text
+ */
+export function fillTemplatePlaceholders(text: string, board: Board, column?: Column): string {
+	return text.replace(PLACEHOLDER_PATTERN, (placeholder: string, name: string, format?: string) => {
+		switch (name.toLowerCase()) {
+			case 'date':
+				return moment().format(format?.trim() || 'YYYY-MM-DD');
+			case 'board':
+				return board.name;
+			case 'column':
+				return column?.name || '';
+			default:
+				return placeholder;
+		}
+	});
+}
+
+/**
+ * Read a template note: `title` and `tags` come from the frontmatter, checklist items
+ * become todos, lines holding only a link become research links and everything else
+ * is the description
+ */
+export function parseCardTemplateNote(content: string, name: string, path: string, frontmatter?: Record<string, unknown>): CardTemplate {
+	const template: CardTemplate = {
+		id: `file:${path}`,
+		name,
+		title: typeof frontmatter?.title === 'string' ? frontmatter.title : '',
+		description: '',
+		tags: (parseFrontMatterTags(frontmatter) || []).map(tag => tag.replace(/^#/, '')),
+		todos: [],
+		researchUrls: [],
+		path
+	};
+
+	const body = content.replace(FRONTMATTER_PATTERN, '');
+	const descriptionLines: string[] = [];
+	for (const line of body.split('\n')) {
+		const todoMatch = line.match(CHECKLIST_PATTERN);
+		const linkMatch = line.match(MARKDOWN_LINK_PATTERN);
+		const urlMatch = line.match(BARE_URL_PATTERN);
+		if (todoMatch) {
+			template.todos.push(todoMatch[1].trim());
+		} else if (linkMatch) {
+			template.researchUrls.push({ title: linkMatch[1].trim(), url: linkMatch[2] });
+		} else if (urlMatch) {
+			template.researchUrls.push({ title: urlMatch[1], url: urlMatch[1] });
+		} else {
+			descriptionLines.push(line);
+		}
+	}
+	template.description = descriptionLines.join('\n').trim();
+
+	return template;
+}
+
+/**
+ * Card templates from the settings and from the notes in the template folder
+ */
+export class CardTemplateManager {
+	private app: App;
+	private plugin: CrystalBoardsPlugin;
+
+	constructor(app: App, plugin: CrystalBoardsPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Templates from the settings first, then template notes by name
+	 */
+	async getTemplates(): Promise<CardTemplate[]> {
+		return [...(this.plugin.settings.cardTemplates || []), ...await this.getNoteTemplates()];
+	}
+
+	private async getNoteTemplates(): Promise<CardTemplate[]> {
+		const folderPath = this.plugin.settings.cardTemplateFolder?.trim();
+		if (!folderPath) return [];
+
+		const folder = this.app.vault.getAbstractFileByPath(normalizePath(folderPath));
+		if (!(folder instanceof TFolder)) return [];
+
+		const files = folder.children
+			.filter((child): child is TFile => child instanceof TFile && child.extension === 'md')
+			.sort((a, b) => a.basename.localeCompare(b.basename));
+
+		const templates: CardTemplate[] = [];
+		for (const file of files) {
+			try {
+				const content = await this.app.vault.cachedRead(file);
+				const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				templates.push(parseCardTemplateNote(content, file.basename, file.path, frontmatter));
+			} catch (error) {
+				console.error(`Error reading card template ${file.path}:`, error);
+			}
+		}
+		return templates;
+	}
+
+	/**
+	 * A new card filled in from the template, with placeholders replaced
+	 */
+	createCard(template: CardTemplateContent, board: Board, column?: Column): Card {
+		const now = Date.now();
+		const fill = (text: string) => fillTemplatePlaceholders(text, board, column);
+
+		return {
+			id: `card-${now}-${Math.random().toString(36).substr(2, 9)}`,
+			title: fill(template.title),
+			description: fill(template.description),
+			tags: template.tags.map(fill),
+			noteLinks: [],
+			todos: template.todos.map((text, index) => ({
+				id: `todo-${now}-${index}-${Math.random().toString(36).substr(2, 9)}`,
+				text: fill(text),
+				completed: false,
+				created: now
+			})),
+			researchUrls: template.researchUrls.map((link, index) => ({
+				id: `url-${now}-${index}`,
+				title: fill(link.title),
+				url: fill(link.url),
+				created: now,
+				status: 'unread' as const
+			})),
+			created: now,
+			modified: now
+		};
+	}
+}
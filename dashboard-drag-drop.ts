@@ -1,5 +1,6 @@
 import { DashboardView } from './dashboard-view';
 import { Board } from './types';
+import { TouchDragController } from './touch-drag';
 
 export class DashboardDragDropHandler {
 	private dashboardView: DashboardView;
@@ -7,9 +8,31 @@ export class DashboardDragDropHandler {
 	private draggedElement: HTMLElement | null = null;
 	private placeholder: HTMLElement | null = null;
 	private dropZones: HTMLElement[] = [];
+	private touchDrag: TouchDragController;
 
 	constructor(dashboardView: DashboardView) {
 		this.dashboardView = dashboardView;
+
+		// Touch devices pick boards up with a long press instead of HTML5 drag events
+		this.touchDrag = new TouchDragController({
+			onStart: (boardCard) => {
+				this.startBoardDrag(boardCard);
+				// Until the finger reaches another board, dropping leaves the board where it was
+				boardCard.after(this.placeholder!);
+			},
+			onMove: (x, y, target) => {
+				// Only boards move the placeholder, so it doesn't jump to the end in the gaps between them
+				const boardsGrid = target?.closest('.crystal-boards-grid') as HTMLElement | null;
+				if (boardsGrid && target?.closest('.crystal-board-card')) {
+					this.updatePlaceholderPosition(target, x, boardsGrid);
+				}
+			},
+			onDrop: () => {
+				const boardsGrid = this.placeholder?.parentElement;
+				return boardsGrid ? this.dropBoard(boardsGrid) : undefined;
+			},
+			onEnd: (boardCard) => this.endBoardDrag(boardCard)
+		}, '.crystal-board-actions, button, input, a');
 	}
 
 	initializeDragDrop(boardsContainer: HTMLElement): void {
@@ -39,6 +62,7 @@ export class DashboardDragDropHandler {
 			const cardEl = card as HTMLElement;
 			cardEl.addEventListener('dragstart', this.handleDragStart.bind(this));
 			cardEl.addEventListener('dragend', this.handleDragEnd.bind(this));
+			this.touchDrag.attach(cardEl);
 		});
 	}
 
@@ -78,10 +102,18 @@ export class DashboardDragDropHandler {
 			return;
 		}
 		
-		const boardId = boardCard.getAttribute('data-board-id');
-		
+		this.startBoardDrag(boardCard);
+
+		// Set drag data
+		if (event.dataTransfer) {
+			event.dataTransfer.effectAllowed = 'move';
+			event.dataTransfer.setData('text/plain', this.draggedBoardId || '');
+			
+		}
+	}
 
-		this.draggedBoardId = boardId;
+	private startBoardDrag(boardCard: HTMLElement): void {
+		this.draggedBoardId = boardCard.getAttribute('data-board-id');
 		this.draggedElement = boardCard;
 
 		// Add dragging class for visual feedback
@@ -90,13 +122,6 @@ export class DashboardDragDropHandler {
 		// Create placeholder
 		this.createPlaceholder(boardCard);
 
-		// Set drag data
-		if (event.dataTransfer) {
-			event.dataTransfer.effectAllowed = 'move';
-			event.dataTransfer.setData('text/plain', this.draggedBoardId || '');
-			
-		}
-
 		// Add visual indicators to drop zones
 		this.dropZones.forEach(zone => {
 			zone.classList.add('crystal-drop-zone-active');
@@ -114,9 +139,11 @@ export class DashboardDragDropHandler {
 	}
 
 	private handleDragEnd(event: DragEvent): void {
-		
-		const target = event.target as HTMLElement;
-		target.classList.remove('crystal-board-dragging');
+		this.endBoardDrag(event.target as HTMLElement);
+	}
+
+	private endBoardDrag(boardCard: HTMLElement): void {
+		boardCard.classList.remove('crystal-board-dragging');
 		
 		// Remove visual indicators from all drop zones
 		this.dropZones.forEach(zone => {
@@ -152,7 +179,7 @@ export class DashboardDragDropHandler {
 		
 		if (boardsGrid) {
 			boardsGrid.classList.add('crystal-drop-zone-hover');
-			this.updatePlaceholderPosition(event, boardsGrid);
+			this.updatePlaceholderPosition(target, event.clientX, boardsGrid);
 		}
 	}
 
@@ -168,10 +195,9 @@ export class DashboardDragDropHandler {
 		}
 	}
 
-	private updatePlaceholderPosition(event: DragEvent, boardsGrid: HTMLElement): void {
+	private updatePlaceholderPosition(target: HTMLElement, clientX: number, boardsGrid: HTMLElement): void {
 		if (!this.placeholder) return;
 
-		const target = event.target as HTMLElement;
 		const boardCard = target.closest('.crystal-board-card') as HTMLElement;
 
 		// Remove existing placeholder
@@ -185,7 +211,7 @@ export class DashboardDragDropHandler {
 			
 			
 			
-			if (event.clientX < centerX) {
+			if (clientX < centerX) {
 				// Insert before
 				
 				boardCard.parentNode?.insertBefore(this.placeholder, boardCard);
@@ -209,9 +235,15 @@ export class DashboardDragDropHandler {
 		if (!this.draggedBoardId || !this.placeholder) return;
 
 		event.preventDefault();
-		
+		await this.dropBoard(event.currentTarget as HTMLElement);
+	}
+
+	/**
+	 * Save the board order with the dragged board where the placeholder is, for both mouse and touch drags
+	 */
+	private async dropBoard(boardsGrid: HTMLElement): Promise<void> {
+		if (!this.draggedBoardId || !this.placeholder) return;
 
-		const boardsGrid = event.currentTarget as HTMLElement;
 		boardsGrid.classList.remove('crystal-drop-zone-hover');
 		
 		// Get all board cards in their current DOM order (excluding dragged and placeholder)
@@ -271,6 +303,8 @@ export class DashboardDragDropHandler {
 	}
 
 	cleanup(): void {
+		this.touchDrag.cancel();
+
 		// Remove event listeners from drop zones
 		this.dropZones.forEach(zone => {
 			zone.classList.remove('crystal-drop-zone-active', 'crystal-drop-zone-hover');
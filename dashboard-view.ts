@@ -1,15 +1,24 @@
-import { ItemView, WorkspaceLeaf, Modal, Setting, TFile, App, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Modal, Setting, TFile, App, Notice, Scope } from 'obsidian';
 import CrystalBoardsPlugin from './main';
 import { Board, DASHBOARD_VIEW_TYPE } from './types';
+import { DashboardDragDropHandler } from './dashboard-drag-drop';
+import { DEFAULT_BOARD_TEMPLATE_ID } from './board-templates';
+import { BoardCloner } from './board-copy';
 
 export class DashboardView extends ItemView {
 	plugin: CrystalBoardsPlugin;
 	private themeChangeHandler: (() => void) | null = null;
 	private themeObserver: MutationObserver | null = null;
+	private dragDropHandler: DashboardDragDropHandler;
 
 	constructor(leaf: WorkspaceLeaf, plugin: CrystalBoardsPlugin) {
 		super(leaf);
 		this.plugin = plugin;
+		this.dragDropHandler = new DashboardDragDropHandler(this);
+
+		// Undo/redo board changes while the dashboard is focused
+		this.scope = new Scope(this.app.scope);
+		this.plugin.registerHistoryKeys(this.scope);
 	}
 
 	getViewType(): string {
@@ -35,6 +44,8 @@ export class DashboardView extends ItemView {
 	}
 
 	async onClose(): Promise<void> {
+		this.dragDropHandler.cleanup();
+
 		// Clean up theme listeners
 		if (this.themeObserver) {
 			this.themeObserver.disconnect();
@@ -98,6 +109,25 @@ export class DashboardView extends ItemView {
 		const titleEl = headerEl.createEl('h1', { cls: 'crystal-boards-title' });
 		titleEl.createEl('span', { text: 'Crystal Boards' });
 		
+		// Opens the card search across all boards, continuing with what was typed
+		const searchInput = headerEl.createEl('input', {
+			type: 'search',
+			cls: 'crystal-boards-search',
+			attr: { placeholder: '🔍 Search cards...', 'aria-label': 'Search cards across all boards' }
+		});
+		searchInput.addEventListener('input', () => {
+			const query = searchInput.value;
+			searchInput.value = '';
+			searchInput.blur();
+			this.plugin.openCardSearch(query);
+		});
+		searchInput.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter') {
+				e.preventDefault();
+				this.plugin.openCardSearch(searchInput.value);
+			}
+		});
+
 		const createBoardBtn = headerEl.createEl('button', {
 			text: 'Create Board',
 			cls: 'mod-cta crystal-boards-create-btn'
@@ -134,6 +164,9 @@ export class DashboardView extends ItemView {
 			for (const board of boards) {
 				await this.renderBoardCard(boardsContainer, board);
 			}
+
+			// Boards can be reordered by dragging, or by long-pressing them on touch screens
+			this.dragDropHandler.initializeDragDrop(boardsContainer);
 		}
 
 		// Add footer with Extract Tasks button
@@ -265,6 +298,17 @@ export class DashboardView extends ItemView {
 			this.openEditBoardModal(board);
 		};
 
+		// Clone button
+		const cloneBtn = actionsEl.createEl('button', {
+			text: '⧉',
+			cls: 'crystal-board-action-btn',
+			attr: { 'aria-label': 'Clone board' }
+		});
+		cloneBtn.onclick = (e) => {
+			e.stopPropagation();
+			this.openCloneBoardModal(board);
+		};
+
 		// Delete button
 		const deleteBtn = actionsEl.createEl('button', {
 			text: '🗑️',
@@ -275,11 +319,13 @@ export class DashboardView extends ItemView {
 			e.stopPropagation();
 			this.confirmDeleteBoard(board);
 		};
+
+		this.dragDropHandler.makeBoardDraggable(cardEl, board);
 	}
 
 	async renderDashboardFooter(container: HTMLElement): Promise<void> {
 		// Only show footer if task source is configured
-		if (!this.plugin.settings.taskSourcePath) {
+		if (!this.plugin.taskExtractionService.hasSources()) {
 			return;
 		}
 
@@ -324,7 +370,7 @@ export class DashboardView extends ItemView {
 					cls: 'crystal-extract-info',
 					text: `${stats.tasksInSource} tasks available`
 				});
-				infoEl.title = `Found ${stats.tasksInSource} tasks in ${this.plugin.settings.taskSourcePath}`;
+				infoEl.title = `Found ${stats.tasksInSource} tasks in ${stats.sourceFileCount} source note${stats.sourceFileCount === 1 ? '' : 's'}`;
 			} else {
 				
 			}
@@ -355,15 +401,36 @@ export class DashboardView extends ItemView {
 		}).open();
 	}
 
+	openCloneBoardModal(board: Board): void {
+		new CloneBoardModal(this.app, this.plugin, board, async (name, copyFiles) => {
+			const existingBoards = this.plugin.dataManager.getBoards();
+			try {
+				const { board: clone, failedPaths } = await new BoardCloner(this.app, this.plugin)
+					.cloneBoard(board, name, existingBoards.length, copyFiles);
+				await this.plugin.dataManager.addBoard(clone);
+				await this.renderDashboard();
+				if (failedPaths.length > 0) {
+					new Notice(`⚠️ Cloned "${board.name}" as "${name}", but ${failedPaths.length} file${failedPaths.length === 1 ? '' : 's'} could not be copied and cards still link to the originals:\n${failedPaths.slice(0, 5).join('\n')}${failedPaths.length > 5 ? '\n…' : ''}`, 10000);
+				} else {
+					new Notice(`✅ Cloned "${board.name}" as "${name}"`);
+				}
+			} catch (error) {
+				console.error('Board clone failed:', error);
+				new Notice(`❌ Board clone failed: ${error.message}`);
+			}
+		}).open();
+	}
+
 	async confirmDeleteBoard(board: Board): Promise<void> {
 		const confirmed = await this.showConfirmDialog(
 			'Delete Board',
-			`Are you sure you want to delete "${board.name}"? This action cannot be undone.`
+			`Are you sure you want to delete "${board.name}"?`
 		);
 		
 		if (confirmed) {
 			await this.plugin.dataManager.deleteBoard(board.id);
 			this.renderDashboard();
+			this.plugin.showUndoNotice(`Deleted board "${board.name}"`);
 		}
 	}
 
@@ -729,6 +796,7 @@ class CreateBoardModal extends Modal {
 	plugin: CrystalBoardsPlugin;
 	onSubmit: (board: Board) => void;
 	boardName = '';
+	templateId = DEFAULT_BOARD_TEMPLATE_ID;
 	emoji = '';
 	coverImage = '';
 	imageSearchResults: TFile[] = [];
@@ -759,6 +827,20 @@ class CreateBoardModal extends Modal {
 				text.inputEl.focus();
 			});
 
+		const templateSetting = new Setting(contentEl)
+			.setName('Board Template')
+			.addDropdown((dropdown) => {
+				this.plugin.boardTemplates.getTemplates().forEach(template => {
+					dropdown.addOption(template.id, `${template.emoji ? `${template.emoji} ` : ''}${template.name}`);
+				});
+				dropdown.setValue(this.templateId)
+					.onChange((value) => {
+						this.templateId = value;
+						templateSetting.setDesc(this.describeTemplate());
+					});
+			});
+		templateSetting.setDesc(this.describeTemplate());
+
 		// Emoji picker with search
 		const emojiContainer = contentEl.createEl('div', { cls: 'crystal-emoji-picker-container' });
 		const emojiSetting = new Setting(emojiContainer)
@@ -828,43 +910,13 @@ class CreateBoardModal extends Modal {
 			return;
 		}
 
-		const now = Date.now();
-		const board: Board = {
-			id: this.generateId(),
-			name: this.boardName.trim(),
-			folderPath: `${this.plugin.settings.kanbanFolderPath}/${this.boardName.trim()}`,
-			emoji: this.emoji || undefined,
-			coverImage: this.coverImage || undefined,
-			position: 0, // Will be set properly in the callback
-			columns: (() => {
-					const colors = ['#E8E8E8', '#E0E8E0', '#E8E0E8', '#E8E8E0', '#E0E8E8'];
-					return [
-						{
-							id: this.generateId(),
-							name: 'To Do',
-							color: colors[0],
-							position: 0,
-							cards: []
-						},
-						{
-							id: this.generateId(),
-							name: 'In Progress',
-							color: colors[1],
-							position: 1,
-							cards: []
-						},
-						{
-							id: this.generateId(),
-							name: 'Done',
-							color: colors[2],
-							position: 2,
-							cards: []
-						}
-					];
-				})(),
-			created: now,
-			modified: now
-		};
+		// Position will be set properly in the callback
+		const template = this.plugin.boardTemplates.getTemplate(this.templateId);
+		const board = this.plugin.boardTemplates.createBoard(template, this.boardName.trim(), 0);
+
+		// The emoji and cover chosen here win over the template's
+		board.emoji = this.emoji || board.emoji;
+		board.coverImage = this.coverImage || board.coverImage;
 
 		// Create folder structure
 		await this.ensureFolderExists(board.folderPath);
@@ -873,6 +925,15 @@ class CreateBoardModal extends Modal {
 		this.close();
 	}
 
+	/**
+	 * Template description and its columns, shown under the template dropdown
+	 */
+	private describeTemplate(): string {
+		const template = this.plugin.boardTemplates.getTemplate(this.templateId);
+		const columns = template.columns.map(column => column.name).join(' → ');
+		return template.description ? `${template.description}: ${columns}` : columns;
+	}
+
 	private async ensureFolderExists(path: string): Promise<void> {
 		if (!(await this.app.vault.adapter.exists(path))) {
 			await this.app.vault.createFolder(path);
@@ -1079,10 +1140,6 @@ class CreateBoardModal extends Modal {
 		}
 	}
 
-	private generateId(): string {
-		return Math.random().toString(36).substr(2, 9);
-	}
-
 	private renderEmojis(emojiGrid: HTMLElement, searchTerm: string): void {
 		emojiGrid.empty();
 		
@@ -1151,6 +1208,86 @@ class CreateBoardModal extends Modal {
 	}
 }
 
+class CloneBoardModal extends Modal {
+	plugin: CrystalBoardsPlugin;
+	board: Board;
+	onSubmit: (name: string, copyFiles: boolean) => void;
+	boardName: string;
+	copyFiles = false;
+
+	constructor(app: App, plugin: CrystalBoardsPlugin, board: Board, onSubmit: (name: string, copyFiles: boolean) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.board = board;
+		this.onSubmit = onSubmit;
+		this.boardName = `${board.name} (copy)`;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Clone Board' });
+
+		new Setting(contentEl)
+			.setName('Board Name')
+			.setDesc(`Columns, cards and archived cards of "${this.board.name}" are copied to this board`)
+			.addText((text) => {
+				text.setValue(this.boardName)
+					.onChange((value) => {
+						this.boardName = value;
+					});
+				text.inputEl.focus();
+				text.inputEl.select();
+			});
+
+		new Setting(contentEl)
+			.setName('Copy Folder and Linked Notes')
+			.setDesc('Copy the files in the board folder and the notes linked from cards into the new board folder, and link the cards to the copies')
+			.addToggle((toggle) => {
+				toggle.setValue(this.copyFiles)
+					.onChange((value) => {
+						this.copyFiles = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText('Cancel')
+					.onClick(() => {
+						this.close();
+					});
+			})
+			.addButton((btn) => {
+				btn.setButtonText('Clone Board')
+					.setCta()
+					.onClick(() => {
+						this.submit();
+					});
+			});
+	}
+
+	private submit(): void {
+		const name = this.boardName.trim();
+		if (!name) {
+			new Notice('Enter a name for the cloned board');
+			return;
+		}
+		// Boards with the same name would share a folder
+		const taken = this.plugin.dataManager.getBoards().some(board => board.name.toLowerCase() === name.toLowerCase());
+		if (taken) {
+			new Notice(`A board named "${name}" already exists`);
+			return;
+		}
+
+		this.onSubmit(name, this.copyFiles);
+		this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
 class EditBoardModal extends Modal {
 	plugin: CrystalBoardsPlugin;
 	board: Board;
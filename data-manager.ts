@@ -1,63 +1,31 @@
-import { Plugin } from 'obsidian';
-import { KanbanData, Board, Column, Card, PluginSettings, DEFAULT_SETTINGS } from './types';
+import { Plugin, TFile } from 'obsidian';
+import { KanbanData, Board, Column, Card, CardSearchResult, PluginSettings, DEFAULT_SETTINGS } from './types';
 import { SecureStorage } from './security-utils';
+import { MarkdownBoardStorage } from './markdown-board-storage';
+import { BoardState, HistoryManager } from './history-manager';
+import { copyCard, copyColumn } from './board-copy';
 
 export class DataManager {
 	private plugin: Plugin;
 	private data: KanbanData;
+	private markdownStorage: MarkdownBoardStorage;
+	private saveListeners: Array<() => void> = [];
+	history: HistoryManager;
 
 	constructor(plugin: Plugin) {
 		this.plugin = plugin;
+		this.markdownStorage = new MarkdownBoardStorage(plugin.app);
+		this.history = new HistoryManager(this);
 		this.data = {
 			boards: [],
-			settings: { ...DEFAULT_SETTINGS }
+			settings: { ...DEFAULT_SETTINGS },
+			legacyFingerprintsMarked: true
 		};
 	}
 
 	async loadData(): Promise<void> {
 		const savedData = await this.plugin.loadData();
 		if (savedData) {
-			// Migrate old data format
-			const boards = savedData.boards || [];
-			const migratedBoards = boards.map((board: any, index: number) => {
-				const migratedColumns = board.columns.map((column: any) => {
-					const migratedCards = column.cards.map((card: any) => {
-						// Migrate old noteLink to noteLinks array
-						if (card.noteLink && !card.noteLinks) {
-							card = {
-								...card,
-								noteLinks: [card.noteLink],
-								noteLink: undefined
-							};
-						}
-						// Ensure noteLinks exists
-						if (!card.noteLinks) {
-							card.noteLinks = [];
-						}
-						// Migrate new card fields
-						if (!card.todos) {
-							card.todos = [];
-						}
-						if (!card.researchUrls) {
-							card.researchUrls = [];
-						}
-						if (!card.description) {
-							card.description = '';
-						}
-						return card;
-					});
-					return { ...column, cards: migratedCards };
-				});
-				// Migrate board position
-				if (board.position === undefined) {
-					board.position = index;
-				}
-				return { ...board, columns: migratedColumns };
-			});
-
-			// Sort boards by position
-			migratedBoards.sort((a: Board, b: Board) => a.position - b.position);
-
 			// Handle settings with secure API key
 			const settings = { ...DEFAULT_SETTINGS, ...savedData.settings };
 			
@@ -66,13 +34,89 @@ export class DataManager {
 				settings.openAIApiKey = SecureStorage.deobfuscate(settings.openAIApiKey);
 			}
 
+			// Boards come from their markdown files when that backend is enabled
+			const savedBoards = settings.storageBackend === 'markdown'
+				? await this.markdownStorage.loadBoards(savedData.boardFiles || {})
+				: savedData.boards || [];
+
+			// Migrate old data format
+			const migratedBoards = this.migrateBoards(savedBoards);
+
+			// Sort boards by position
+			migratedBoards.sort((a: Board, b: Board) => a.position - b.position);
+
+			if (!savedData.legacyFingerprintsMarked) {
+				this.markLegacyExtractedCards(migratedBoards, settings.extractedTaskPrefix || '');
+			}
+
 			this.data = {
 				boards: migratedBoards,
-				settings: settings
+				settings: settings,
+				legacyFingerprintsMarked: true
 			};
 		}
 	}
 
+	/**
+	 * Give cards extracted before fingerprints existed a fingerprint made from their title,
+	 * so re-extraction still finds them. Runs once: cards made later without a fingerprint,
+	 * by hand or by duplicating, are never matched to tasks.
+	 */
+	private markLegacyExtractedCards(boards: Board[], extractedTaskPrefix: string): void {
+		const mark = (card: Card) => {
+			if (card.fingerprint) return;
+			if (card.source || (extractedTaskPrefix && card.title.startsWith(extractedTaskPrefix))) {
+				card.fingerprint = `title:${card.title}`;
+			}
+		};
+		for (const board of boards) {
+			board.columns.forEach(column => column.cards.forEach(mark));
+			(board.archivedCards || []).forEach(archived => mark(archived.card));
+		}
+	}
+
+	/**
+	 * Bring boards saved by older versions up to the current shape.
+	 * Used both when loading plugin data and when importing boards.
+	 */
+	migrateBoards(boards: any[]): Board[] {
+		return boards.map((board: any, index: number) => {
+			const migratedColumns = board.columns.map((column: any) => {
+				const migratedCards = column.cards.map((card: any) => {
+					// Migrate old noteLink to noteLinks array
+					if (card.noteLink && !card.noteLinks) {
+						card = {
+							...card,
+							noteLinks: [card.noteLink],
+							noteLink: undefined
+						};
+					}
+					// Ensure noteLinks exists
+					if (!card.noteLinks) {
+						card.noteLinks = [];
+					}
+					// Migrate new card fields
+					if (!card.todos) {
+						card.todos = [];
+					}
+					if (!card.researchUrls) {
+						card.researchUrls = [];
+					}
+					if (!card.description) {
+						card.description = '';
+					}
+					return card;
+				});
+				return { ...column, cards: migratedCards };
+			});
+			// Migrate board position
+			if (board.position === undefined) {
+				board.position = index;
+			}
+			return { ...board, columns: migratedColumns };
+		});
+	}
+
 	async fixBoardPositions(): Promise<void> {
 		// Fix any duplicate or missing positions
 		this.data.boards.forEach((board, index) => {
@@ -86,7 +130,74 @@ export class DataManager {
 	}
 
 	async saveData(): Promise<void> {
-		await this.plugin.saveData(this.data);
+		if (this.usesMarkdownStorage()) {
+			// Boards live in the vault; data.json only keeps settings and the file index
+			await this.markdownStorage.saveBoards(this.data.boards);
+			await this.saveMarkdownIndex();
+		} else {
+			await this.plugin.saveData(this.data);
+		}
+		this.saveListeners.forEach(listener => listener());
+	}
+
+	/**
+	 * Register a callback that runs after every save
+	 */
+	onSave(listener: () => void): void {
+		this.saveListeners.push(listener);
+	}
+
+	private usesMarkdownStorage(): boolean {
+		return this.data.settings.storageBackend === 'markdown';
+	}
+
+	private async saveMarkdownIndex(): Promise<void> {
+		const data: KanbanData = {
+			boards: [],
+			settings: this.data.settings,
+			boardFiles: this.markdownStorage.getIndex(),
+			legacyFingerprintsMarked: this.data.legacyFingerprintsMarked
+		};
+		await this.plugin.saveData(data);
+	}
+
+	/**
+	 * Pick up edits made to a board file outside the plugin.
+	 * Returns true if a board was reloaded.
+	 */
+	async reloadBoardFile(file: TFile): Promise<boolean> {
+		if (!this.usesMarkdownStorage() || !this.markdownStorage.isBoardFile(file.path)) return false;
+
+		// Edits made in the file are not undoable
+		return this.history.runUntracked(async () => {
+			const board = await this.markdownStorage.readExternalChange(file);
+			if (!board) return false;
+
+			const [migratedBoard] = this.migrateBoards([board]);
+			const index = this.data.boards.findIndex(existing => existing.id === migratedBoard.id);
+			if (index !== -1) {
+				this.data.boards[index] = migratedBoard;
+			} else {
+				this.data.boards.push(migratedBoard);
+			}
+
+			await this.saveMarkdownIndex();
+			return true;
+		});
+	}
+
+	/**
+	 * Whether the path is the markdown file a board is stored in
+	 */
+	isBoardFile(path: string): boolean {
+		return this.usesMarkdownStorage() && this.markdownStorage.isBoardFile(path);
+	}
+
+	async handleBoardFileRename(file: TFile, oldPath: string): Promise<void> {
+		if (!this.usesMarkdownStorage() || !this.markdownStorage.isBoardFile(oldPath)) return;
+
+		this.markdownStorage.handleRename(file, oldPath);
+		await this.saveMarkdownIndex();
 	}
 
 	getBoards(): Board[] {
@@ -98,83 +209,146 @@ export class DataManager {
 	}
 
 	async addBoard(board: Board): Promise<void> {
-		this.data.boards.push(board);
-		await this.saveData();
+		return this.history.transaction('Add board', async () => {
+			this.data.boards.push(board);
+			await this.saveData();
+		});
 	}
 
 	async updateBoard(updatedBoard: Board): Promise<void> {
+		return this.history.transaction('Update board', async () => {
+			const index = this.data.boards.findIndex(board => board.id === updatedBoard.id);
+			if (index !== -1) {
+				this.data.boards[index] = { ...updatedBoard, modified: Date.now() };
+				await this.saveData();
+			}
+		});
+	}
+
+	async replaceBoards(boards: Board[]): Promise<void> {
+		this.data.boards = [...boards]
+			.sort((a, b) => a.position - b.position)
+			.map((board, index) => ({ ...board, position: index }));
+		await this.saveData();
+	}
+
+	/**
+	 * Put boards back as captured by the undo history, removing those that did not exist.
+	 * How the boards are shown (collapsed columns and lanes, compact cards) stays as it is now.
+	 */
+	async restoreBoardStates(states: BoardState[]): Promise<void> {
+		for (const { id, board } of states) {
+			const index = this.data.boards.findIndex(existing => existing.id === id);
+			if (!board) {
+				if (index !== -1) this.data.boards.splice(index, 1);
+			} else if (index !== -1) {
+				this.data.boards[index] = this.withViewState(board, this.data.boards[index]);
+			} else {
+				this.data.boards.push(board);
+			}
+		}
+		await this.saveData();
+	}
+
+	/**
+	 * Save how a board is shown: collapsed columns and lanes, compact cards. This is not
+	 * a board change, so it is not undoable and undo leaves it alone.
+	 */
+	async updateBoardView(updatedBoard: Board): Promise<void> {
 		const index = this.data.boards.findIndex(board => board.id === updatedBoard.id);
 		if (index !== -1) {
-			this.data.boards[index] = { ...updatedBoard, modified: Date.now() };
+			this.data.boards[index] = this.withViewState(this.data.boards[index], updatedBoard);
 			await this.saveData();
 		}
 	}
 
+	/**
+	 * The board with the view state of another version of it
+	 */
+	private withViewState(board: Board, viewSource: Board): Board {
+		const collapsedColumnIds = new Set(viewSource.columns.filter(column => column.collapsed).map(column => column.id));
+		const laneCollapsed = viewSource.swimlanes?.collapsed;
+		return {
+			...board,
+			compactCards: viewSource.compactCards,
+			swimlanes: board.swimlanes ? { ...board.swimlanes, collapsed: laneCollapsed } : board.swimlanes,
+			columns: board.columns.map(column => ({ ...column, collapsed: collapsedColumnIds.has(column.id) || undefined }))
+		};
+	}
+
 	async deleteBoard(id: string): Promise<void> {
-		this.data.boards = this.data.boards.filter(board => board.id !== id);
-		await this.saveData();
+		return this.history.transaction('Delete board', async () => {
+			this.data.boards = this.data.boards.filter(board => board.id !== id);
+			await this.saveData();
+		});
 	}
 
 	async reorderBoards(boardIds: string[]): Promise<void> {
-		// Update positions based on new order
-		boardIds.forEach((boardId, index) => {
-			const board = this.getBoardById(boardId);
-			if (board) {
-				board.position = index;
-				board.modified = Date.now();
-			}
-		});
+		return this.history.transaction('Reorder boards', async () => {
+			// Update positions based on new order
+			boardIds.forEach((boardId, index) => {
+				const board = this.getBoardById(boardId);
+				if (board) {
+					board.position = index;
+					board.modified = Date.now();
+				}
+			});
 		
-		// Sort boards by position
-		this.data.boards.sort((a, b) => a.position - b.position);
-		await this.saveData();
+			// Sort boards by position
+			this.data.boards.sort((a, b) => a.position - b.position);
+			await this.saveData();
+		});
 	}
 
 	async moveBoardLeft(boardId: string): Promise<boolean> {
-		const board = this.getBoardById(boardId);
-		if (!board || board.position === 0) return false;
+		return this.history.transaction('Move board', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board || board.position === 0) return false;
 
-		// Find the board to the left (lower position)
-		const boardToLeft = this.data.boards.find(b => b.position === board.position - 1);
-		if (!boardToLeft) return false;
+			// Find the board to the left (lower position)
+			const boardToLeft = this.data.boards.find(b => b.position === board.position - 1);
+			if (!boardToLeft) return false;
 
-		// Swap positions
-		const originalPosition = board.position;
-		board.position = boardToLeft.position;
-		boardToLeft.position = originalPosition;
+			// Swap positions
+			const originalPosition = board.position;
+			board.position = boardToLeft.position;
+			boardToLeft.position = originalPosition;
 
-		// Update timestamps
-		board.modified = Date.now();
-		boardToLeft.modified = Date.now();
+			// Update timestamps
+			board.modified = Date.now();
+			boardToLeft.modified = Date.now();
 
-		// Sort boards by position
-		this.data.boards.sort((a, b) => a.position - b.position);
-		await this.saveData();
-		return true;
+			// Sort boards by position
+			this.data.boards.sort((a, b) => a.position - b.position);
+			await this.saveData();
+			return true;
+		});
 	}
 
 	async moveBoardRight(boardId: string): Promise<boolean> {
-		const board = this.getBoardById(boardId);
-		const maxPosition = this.data.boards.length - 1;
-		if (!board || board.position === maxPosition) return false;
+		return this.history.transaction('Move board', async () => {
+			const board = this.getBoardById(boardId);
+			const maxPosition = this.data.boards.length - 1;
+			if (!board || board.position === maxPosition) return false;
 
-		// Find the board to the right (higher position)
-		const boardToRight = this.data.boards.find(b => b.position === board.position + 1);
-		if (!boardToRight) return false;
+			// Find the board to the right (higher position)
+			const boardToRight = this.data.boards.find(b => b.position === board.position + 1);
+			if (!boardToRight) return false;
 
-		// Swap positions
-		const originalPosition = board.position;
-		board.position = boardToRight.position;
-		boardToRight.position = originalPosition;
+			// Swap positions
+			const originalPosition = board.position;
+			board.position = boardToRight.position;
+			boardToRight.position = originalPosition;
 
-		// Update timestamps
-		board.modified = Date.now();
-		boardToRight.modified = Date.now();
+			// Update timestamps
+			board.modified = Date.now();
+			boardToRight.modified = Date.now();
 
-		// Sort boards by position
-		this.data.boards.sort((a, b) => a.position - b.position);
-		await this.saveData();
-		return true;
+			// Sort boards by position
+			this.data.boards.sort((a, b) => a.position - b.position);
+			await this.saveData();
+			return true;
+		});
 	}
 
 	getSettings(): PluginSettings {
@@ -196,153 +370,379 @@ export class DataManager {
 		toColumnId: string, 
 		toPosition: number
 	): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Move card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
 
-		const fromColumn = board.columns.find(col => col.id === fromColumnId);
-		const toColumn = board.columns.find(col => col.id === toColumnId);
+			const fromColumn = board.columns.find(col => col.id === fromColumnId);
+			const toColumn = board.columns.find(col => col.id === toColumnId);
 		
-		if (!fromColumn || !toColumn) return;
+			if (!fromColumn || !toColumn) return;
 
-		const cardIndex = fromColumn.cards.findIndex(card => card.id === cardId);
-		if (cardIndex === -1) return;
+			const cardIndex = fromColumn.cards.findIndex(card => card.id === cardId);
+			if (cardIndex === -1) return;
 
-		const [card] = fromColumn.cards.splice(cardIndex, 1);
-		toColumn.cards.splice(toPosition, 0, card);
+			const [card] = fromColumn.cards.splice(cardIndex, 1);
+			if (fromColumnId !== toColumnId) {
+				card.columnEnteredAt = Date.now();
+			}
+			toColumn.cards.splice(toPosition, 0, card);
 
-		await this.updateBoard(board);
+			await this.updateBoard(board);
+		});
+	}
+
+	async moveCardWithinColumn(
+		boardId: string,
+		columnId: string,
+		cardId: string,
+		toIndex: number
+	): Promise<boolean> {
+		return this.history.transaction('Reorder card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return false;
+
+			const column = board.columns.find(col => col.id === columnId);
+			if (!column) return false;
+
+			const cardIndex = column.cards.findIndex(card => card.id === cardId);
+			if (cardIndex === -1) return false;
+
+			// Clamp the target index to the bounds of the column
+			const targetIndex = Math.max(0, Math.min(toIndex, column.cards.length - 1));
+			if (targetIndex === cardIndex) return false;
+
+			const [card] = column.cards.splice(cardIndex, 1);
+			column.cards.splice(targetIndex, 0, card);
+
+			await this.updateBoard(board);
+			return true;
+		});
 	}
 
 	async addCardToColumn(boardId: string, columnId: string, card: Card): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Add card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
 
-		const column = board.columns.find(col => col.id === columnId);
-		if (!column) return;
+			const column = board.columns.find(col => col.id === columnId);
+			if (!column) return;
 
-		column.cards.push(card);
-		await this.updateBoard(board);
+			column.cards.push({ ...card, columnEnteredAt: Date.now() });
+			await this.updateBoard(board);
+		});
 	}
 
 	async removeCardFromColumn(boardId: string, columnId: string, cardId: string): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Delete card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
+
+			const column = board.columns.find(col => col.id === columnId);
+			if (!column) return;
+
+			column.cards = column.cards.filter(card => card.id !== cardId);
+			await this.updateBoard(board);
+		});
+	}
+
+	/**
+	 * Put a copy of the card right below it. Returns the copy.
+	 */
+	async duplicateCard(boardId: string, columnId: string, cardId: string): Promise<Card | null> {
+		return this.history.transaction('Duplicate card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return null;
+
+			const column = board.columns.find(col => col.id === columnId);
+			if (!column) return null;
+
+			const cardIndex = column.cards.findIndex(card => card.id === cardId);
+			if (cardIndex === -1) return null;
+
+			const original = column.cards[cardIndex];
+			const copy: Card = { ...copyCard(original), title: `${original.title} (copy)` };
+			column.cards.splice(cardIndex + 1, 0, copy);
+			await this.updateBoard(board);
+			return copy;
+		});
+	}
+
+	/**
+	 * Move a card out of its column into the board's archive
+	 */
+	async archiveCard(boardId: string, columnId: string, cardId: string): Promise<boolean> {
+		return this.history.transaction('Archive card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return false;
+
+			const column = board.columns.find(col => col.id === columnId);
+			if (!column) return false;
+
+			const cardIndex = column.cards.findIndex(card => card.id === cardId);
+			if (cardIndex === -1) return false;
+
+			const [card] = column.cards.splice(cardIndex, 1);
+			board.archivedCards = [
+				{ card, columnId: column.id, columnName: column.name, archivedAt: Date.now() },
+				...(board.archivedCards || [])
+			];
+			await this.updateBoard(board);
+			return true;
+		});
+	}
+
+	/**
+	 * Put an archived card back at the end of its original column, falling back to a
+	 * column with the same name and then to the first column. Returns the column name.
+	 */
+	async restoreArchivedCard(boardId: string, cardId: string): Promise<string | null> {
+		return this.history.transaction('Restore card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board || !board.archivedCards) return null;
+
+			const entry = board.archivedCards.find(archived => archived.card.id === cardId);
+			if (!entry) return null;
+
+			const sortedColumns = [...board.columns].sort((a, b) => a.position - b.position);
+			const column = sortedColumns.find(col => col.id === entry.columnId)
+				|| sortedColumns.find(col => col.name === entry.columnName)
+				|| sortedColumns[0];
+			if (!column) return null;
+
+			board.archivedCards = board.archivedCards.filter(archived => archived !== entry);
+			column.cards.push({ ...entry.card, columnEnteredAt: Date.now() });
+			await this.updateBoard(board);
+			return column.name;
+		});
+	}
+
+	/**
+	 * Permanently delete archived cards
+	 */
+	async purgeArchivedCards(boardId: string, cardIds: string[]): Promise<void> {
+		return this.history.transaction('Purge archived cards', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board || !board.archivedCards) return;
+
+			board.archivedCards = board.archivedCards.filter(archived => !cardIds.includes(archived.card.id));
+			await this.updateBoard(board);
+		});
+	}
+
+	/**
+	 * Archive cards that have been in the configured "done" column for longer than
+	 * the configured number of days. Returns the number of archived cards.
+	 */
+	async autoArchiveDoneCards(): Promise<number> {
+		const { autoArchiveEnabled, autoArchiveColumnName, autoArchiveAfterDays } = this.data.settings;
+		if (!autoArchiveEnabled || !autoArchiveColumnName || !autoArchiveAfterDays || autoArchiveAfterDays <= 0) {
+			return 0;
+		}
 
-		const column = board.columns.find(col => col.id === columnId);
-		if (!column) return;
+		const cutoff = Date.now() - autoArchiveAfterDays * 24 * 60 * 60 * 1000;
+		const columnName = autoArchiveColumnName.trim().toLowerCase();
+		let archivedCount = 0;
+
+		// Runs on a timer rather than as an edit of the user's, so it is not undoable
+		await this.history.runUntracked(async () => {
+			for (const board of this.data.boards) {
+				const doneColumns = board.columns.filter(col => col.name.trim().toLowerCase() === columnName);
+				for (const column of doneColumns) {
+					const expired = column.cards.filter(card => (card.columnEnteredAt ?? card.modified) < cutoff);
+					for (const card of expired) {
+						if (await this.archiveCard(board.id, column.id, card.id)) {
+							archivedCount++;
+						}
+					}
+				}
+			}
+		});
+
+		return archivedCount;
+	}
+
+	/**
+	 * Find cards whose title, description, tags, todos or research link titles contain
+	 * the query, including archived cards
+	 */
+	searchCards(query: string, boardId?: string): CardSearchResult[] {
+		const term = query.trim().toLowerCase();
+		const results: CardSearchResult[] = [];
+		const matches = (card: Card) => !term ||
+			card.title.toLowerCase().includes(term) ||
+			(card.description || '').toLowerCase().includes(term) ||
+			card.tags.some(tag => tag.toLowerCase().includes(term)) ||
+			card.todos.some(todo => todo.text.toLowerCase().includes(term)) ||
+			card.researchUrls.some(url => (url.title || '').toLowerCase().includes(term));
+
+		for (const board of this.getBoards()) {
+			if (boardId && board.id !== boardId) continue;
+
+			for (const column of board.columns) {
+				for (const card of column.cards) {
+					if (matches(card)) {
+						results.push({ board, card, columnName: column.name, archived: false });
+					}
+				}
+			}
 
-		column.cards = column.cards.filter(card => card.id !== cardId);
-		await this.updateBoard(board);
+			for (const archived of board.archivedCards || []) {
+				if (matches(archived.card)) {
+					results.push({ board, card: archived.card, columnName: archived.columnName, archived: true });
+				}
+			}
+		}
+
+		return results;
 	}
 
 	async updateCard(boardId: string, columnId: string, updatedCard: Card): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Update card', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
 
-		const column = board.columns.find(col => col.id === columnId);
-		if (!column) return;
+			const column = board.columns.find(col => col.id === columnId);
+			if (!column) return;
 
-		const cardIndex = column.cards.findIndex(card => card.id === updatedCard.id);
-		if (cardIndex === -1) return;
+			const cardIndex = column.cards.findIndex(card => card.id === updatedCard.id);
+			if (cardIndex === -1) return;
 
-		updatedCard.modified = Date.now();
-		column.cards[cardIndex] = updatedCard;
-		await this.updateBoard(board);
+			updatedCard.modified = Date.now();
+			column.cards[cardIndex] = updatedCard;
+			await this.updateBoard(board);
+		});
 	}
 
 
 
 	async addColumnToBoard(boardId: string, column: Column): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Add column', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
 
-		board.columns.push(column);
-		await this.updateBoard(board);
+			board.columns.push(column);
+			await this.updateBoard(board);
+		});
+	}
+
+	/**
+	 * Put a copy of the column right after it, with copies of its cards or empty.
+	 * Returns the copy.
+	 */
+	async duplicateColumn(boardId: string, columnId: string, includeCards: boolean): Promise<Column | null> {
+		return this.history.transaction('Duplicate column', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return null;
+
+			const original = board.columns.find(col => col.id === columnId);
+			if (!original) return null;
+
+			const copy: Column = { ...copyColumn(original, includeCards), name: `${original.name} (copy)` };
+			const columns = [...board.columns].sort((a, b) => a.position - b.position);
+			columns.splice(columns.indexOf(original) + 1, 0, copy);
+			columns.forEach((col, index) => {
+				col.position = index;
+			});
+			board.columns = columns;
+			await this.updateBoard(board);
+			return copy;
+		});
 	}
 
 	async removeColumnFromBoard(boardId: string, columnId: string): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Delete column', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
 
-		board.columns = board.columns.filter(col => col.id !== columnId);
-		// Reorder positions
-		board.columns.forEach((col, index) => {
-			col.position = index;
+			board.columns = board.columns.filter(col => col.id !== columnId);
+			// Reorder positions
+			board.columns.forEach((col, index) => {
+				col.position = index;
+			});
+			await this.updateBoard(board);
 		});
-		await this.updateBoard(board);
 	}
 
 	async updateColumn(boardId: string, updatedColumn: Column): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Update column', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
 
-		const columnIndex = board.columns.findIndex(col => col.id === updatedColumn.id);
-		if (columnIndex === -1) return;
+			const columnIndex = board.columns.findIndex(col => col.id === updatedColumn.id);
+			if (columnIndex === -1) return;
 
-		board.columns[columnIndex] = updatedColumn;
-		await this.updateBoard(board);
+			board.columns[columnIndex] = updatedColumn;
+			await this.updateBoard(board);
+		});
 	}
 
 	async reorderColumns(boardId: string, newOrder: string[]): Promise<void> {
-		const board = this.getBoardById(boardId);
-		if (!board) return;
+		return this.history.transaction('Reorder columns', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return;
 
-		const reorderedColumns = newOrder.map((columnId, index) => {
-			const column = board.columns.find(col => col.id === columnId);
-			if (column) {
-				return { ...column, position: index };
-			}
-			return null;
-		}).filter(Boolean);
+			const reorderedColumns = newOrder.map((columnId, index) => {
+				const column = board.columns.find(col => col.id === columnId);
+				if (column) {
+					return { ...column, position: index };
+				}
+				return null;
+			}).filter(Boolean);
 
-		if (reorderedColumns.length === board.columns.length) {
-			board.columns = reorderedColumns as Column[];
-			await this.updateBoard(board);
-		}
+			if (reorderedColumns.length === board.columns.length) {
+				board.columns = reorderedColumns as Column[];
+				await this.updateBoard(board);
+			}
+		});
 	}
 
 	async moveColumnLeft(boardId: string, columnId: string): Promise<boolean> {
-		const board = this.getBoardById(boardId);
-		if (!board) return false;
+		return this.history.transaction('Move column', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return false;
 
-		const column = board.columns.find(col => col.id === columnId);
-		if (!column || column.position === 0) return false;
+			const column = board.columns.find(col => col.id === columnId);
+			if (!column || column.position === 0) return false;
 
-		// Find the column to the left (lower position)
-		const columnToLeft = board.columns.find(col => col.position === column.position - 1);
-		if (!columnToLeft) return false;
+			// Find the column to the left (lower position)
+			const columnToLeft = board.columns.find(col => col.position === column.position - 1);
+			if (!columnToLeft) return false;
 
-		// Swap positions
-		const originalPosition = column.position;
-		column.position = columnToLeft.position;
-		columnToLeft.position = originalPosition;
+			// Swap positions
+			const originalPosition = column.position;
+			column.position = columnToLeft.position;
+			columnToLeft.position = originalPosition;
 
-		// Sort columns by position
-		board.columns.sort((a, b) => a.position - b.position);
-		await this.updateBoard(board);
-		return true;
+			// Sort columns by position
+			board.columns.sort((a, b) => a.position - b.position);
+			await this.updateBoard(board);
+			return true;
+		});
 	}
 
 	async moveColumnRight(boardId: string, columnId: string): Promise<boolean> {
-		const board = this.getBoardById(boardId);
-		if (!board) return false;
-
-		const column = board.columns.find(col => col.id === columnId);
-		const maxPosition = board.columns.length - 1;
-		if (!column || column.position === maxPosition) return false;
-
-		// Find the column to the right (higher position)
-		const columnToRight = board.columns.find(col => col.position === column.position + 1);
-		if (!columnToRight) return false;
-
-		// Swap positions
-		const originalPosition = column.position;
-		column.position = columnToRight.position;
-		columnToRight.position = originalPosition;
-
-		// Sort columns by position
-		board.columns.sort((a, b) => a.position - b.position);
-		await this.updateBoard(board);
-		return true;
+		return this.history.transaction('Move column', async () => {
+			const board = this.getBoardById(boardId);
+			if (!board) return false;
+
+			const column = board.columns.find(col => col.id === columnId);
+			const maxPosition = board.columns.length - 1;
+			if (!column || column.position === maxPosition) return false;
+
+			// Find the column to the right (higher position)
+			const columnToRight = board.columns.find(col => col.position === column.position + 1);
+			if (!columnToRight) return false;
+
+			// Swap positions
+			const originalPosition = column.position;
+			column.position = columnToRight.position;
+			columnToRight.position = originalPosition;
+
+			// Sort columns by position
+			board.columns.sort((a, b) => a.position - b.position);
+			await this.updateBoard(board);
+			return true;
+		});
 	}
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
+import { Notice } from 'obsidian';
 import CrystalBoardsPlugin from './main';
 import { BoardView } from './board-view';
+import { getWipBlockReason } from './wip-limits';
+import { TouchDragController } from './touch-drag';
 
 export class DragDropManager {
 	private plugin: CrystalBoardsPlugin;
@@ -8,10 +11,20 @@ export class DragDropManager {
 	private draggedCardId: string | null = null;
 	private sourceColumnId: string | null = null;
 	private dropZones: HTMLElement[] = [];
+	private dropIndicator: HTMLElement | null = null;
+	private touchDrag: TouchDragController;
 
 	constructor(plugin: CrystalBoardsPlugin, boardView: BoardView) {
 		this.plugin = plugin;
 		this.boardView = boardView;
+
+		// Touch devices pick cards up with a long press instead of HTML5 drag events
+		this.touchDrag = new TouchDragController({
+			onStart: (cardEl) => this.startCardDrag(cardEl),
+			onMove: (x, y, target) => this.updateTouchDropTarget(target, y),
+			onDrop: (x, y, target) => target ? this.dropCard(target, y) : undefined,
+			onEnd: (cardEl) => this.endCardDrag(cardEl)
+		}, '.crystal-card-actions, .crystal-card-selection, .crystal-card-note-link, button, input, a');
 	}
 
 	enableDragAndDrop(): void {
@@ -32,6 +45,7 @@ export class DragDropManager {
 			
 			cardEl.addEventListener('dragstart', (e) => this.handleDragStart(e));
 			cardEl.addEventListener('dragend', (e) => this.handleDragEnd(e));
+			this.touchDrag.attach(cardEl);
 		});
 	}
 
@@ -51,21 +65,29 @@ export class DragDropManager {
 
 	private handleDragStart(event: DragEvent): void {
 		const target = event.target as HTMLElement;
-		this.draggedCard = target;
-		this.draggedCardId = target.getAttribute('data-card-id');
-		
-		// Find the source column
-		const columnEl = target.closest('.crystal-column') as HTMLElement;
-		this.sourceColumnId = columnEl?.getAttribute('data-column-id') || null;
-		
-		// Add visual feedback
-		target.classList.add('crystal-card-dragging');
+		this.startCardDrag(target);
 		
 		// Set drag effect
 		if (event.dataTransfer) {
 			event.dataTransfer.effectAllowed = 'move';
 			event.dataTransfer.setData('text/plain', this.draggedCardId || '');
 		}
+	}
+
+	private handleDragEnd(event: DragEvent): void {
+		this.endCardDrag(event.target as HTMLElement);
+	}
+
+	private startCardDrag(cardEl: HTMLElement): void {
+		this.draggedCard = cardEl;
+		this.draggedCardId = cardEl.getAttribute('data-card-id');
+		
+		// Find the source column
+		const columnEl = cardEl.closest('.crystal-column') as HTMLElement;
+		this.sourceColumnId = columnEl?.getAttribute('data-column-id') || null;
+		
+		// Add visual feedback
+		cardEl.classList.add('crystal-card-dragging');
 		
 		// Add visual indicators to all drop zones
 		this.dropZones.forEach(zone => {
@@ -73,14 +95,14 @@ export class DragDropManager {
 		});
 	}
 
-	private handleDragEnd(event: DragEvent): void {
-		const target = event.target as HTMLElement;
-		target.classList.remove('crystal-card-dragging');
+	private endCardDrag(cardEl: HTMLElement): void {
+		cardEl.classList.remove('crystal-card-dragging');
 		
 		// Remove visual indicators from all drop zones
 		this.dropZones.forEach(zone => {
 			zone.classList.remove('crystal-drop-zone-active', 'crystal-drop-zone-hover');
 		});
+		this.removeDropIndicator();
 		
 		// Reset drag state
 		this.draggedCard = null;
@@ -93,6 +115,13 @@ export class DragDropManager {
 		if (event.dataTransfer) {
 			event.dataTransfer.dropEffect = 'move';
 		}
+
+		// Show where the card will land
+		const target = event.target as HTMLElement;
+		const columnCardsEl = target.closest('.crystal-column-cards') as HTMLElement;
+		if (columnCardsEl && this.draggedCardId) {
+			this.updateDropIndicator(columnCardsEl, event.clientY);
+		}
 	}
 
 	private handleDragEnter(event: DragEvent): void {
@@ -112,13 +141,37 @@ export class DragDropManager {
 		// Only remove hover effect if we're actually leaving the drop zone
 		if (columnCardsEl && !columnCardsEl.contains(event.relatedTarget as Node)) {
 			columnCardsEl.classList.remove('crystal-drop-zone-hover');
+			if (this.dropIndicator && this.dropIndicator.parentElement === columnCardsEl) {
+				this.removeDropIndicator();
+			}
+		}
+	}
+
+	/**
+	 * Highlight the column under the finger and show where the card would land
+	 */
+	private updateTouchDropTarget(target: HTMLElement | null, y: number): void {
+		const columnCardsEl = target?.closest('.crystal-column-cards') as HTMLElement | null;
+		this.dropZones.forEach(zone => {
+			zone.classList.toggle('crystal-drop-zone-hover', zone === columnCardsEl);
+		});
+
+		if (columnCardsEl && this.draggedCardId) {
+			this.updateDropIndicator(columnCardsEl, y);
+		} else {
+			this.removeDropIndicator();
 		}
 	}
 
 	private async handleDrop(event: DragEvent): Promise<void> {
 		event.preventDefault();
-		
-		const target = event.target as HTMLElement;
+		await this.dropCard(event.target as HTMLElement, event.clientY);
+	}
+
+	/**
+	 * Move the dragged card to where it was dropped, for both mouse and touch drags
+	 */
+	private async dropCard(target: HTMLElement, clientY: number): Promise<void> {
 		const columnCardsEl = target.closest('.crystal-column-cards') as HTMLElement;
 		const columnEl = target.closest('.crystal-column') as HTMLElement;
 		
@@ -135,23 +188,56 @@ export class DragDropManager {
 		// Remove hover effect
 		columnCardsEl.classList.remove('crystal-drop-zone-hover');
 		
-		// Don't do anything if dropped in the same column
-		if (targetColumnId === this.sourceColumnId) {
+		// Calculate drop position before the indicator is removed
+		const dropPosition = this.calculateDropPosition(clientY, columnCardsEl, targetColumnId);
+		this.removeDropIndicator();
+
+		// Columns with a strict WIP limit refuse cards once they are full
+		const targetColumn = this.boardView.board.columns.find(col => col.id === targetColumnId);
+		const blockReason = targetColumn && targetColumnId !== this.sourceColumnId
+			? getWipBlockReason(targetColumn, 1)
+			: null;
+		if (blockReason) {
+			new Notice(`🚫 ${blockReason}`, 5000);
 			return;
 		}
 		
-		// Calculate drop position
-		const dropPosition = this.calculateDropPosition(event, columnCardsEl);
+		// Swimlane cells carry the lane the card is dropped into
+		const targetLane = columnEl.getAttribute('data-lane');
+		const boardId = this.boardView.board.id;
+		const cardId = this.draggedCardId;
+		const sourceColumnId = this.sourceColumnId;
 		
 		try {
-			// Move the card in the data
-			await this.plugin.dataManager.moveCardBetweenColumns(
-				this.boardView.board.id,
-				this.draggedCardId,
-				this.sourceColumnId,
-				targetColumnId,
-				dropPosition
-			);
+			let changed = false;
+			await this.plugin.dataManager.history.transaction('Move card', async () => {
+				if (targetColumnId === sourceColumnId) {
+					// Reorder within the same column
+					changed = await this.plugin.dataManager.moveCardWithinColumn(
+						boardId,
+						targetColumnId,
+						cardId,
+						dropPosition
+					);
+				} else {
+					// Move the card in the data
+					await this.plugin.dataManager.moveCardBetweenColumns(
+						boardId,
+						cardId,
+						sourceColumnId,
+						targetColumnId,
+						dropPosition
+					);
+					changed = true;
+				}
+
+				if (targetLane !== null && await this.boardView.moveCardToLane(cardId, targetColumnId, targetLane)) {
+					changed = true;
+				}
+			});
+			if (!changed) {
+				return;
+			}
 			
 			// Update the board view
 			const updatedBoard = this.plugin.dataManager.getBoardById(this.boardView.board.id);
@@ -170,19 +256,31 @@ export class DragDropManager {
 		}
 	}
 
-	private calculateDropPosition(event: DragEvent, columnCardsEl: HTMLElement): number {
-		const cards = Array.from(columnCardsEl.querySelectorAll('.crystal-card'));
-		const afterElement = this.getDragAfterElement(columnCardsEl, event.clientY);
+	/**
+	 * Calculate the index the dragged card should take among the other cards in the column.
+	 * Cards may be sorted or filtered on screen, so the position is looked up in the column data.
+	 */
+	private calculateDropPosition(clientY: number, columnCardsEl: HTMLElement, columnId: string): number {
+		const column = this.boardView.board.columns.find(col => col.id === columnId);
+		const otherCardIds = (column?.cards || [])
+			.filter(card => card.id !== this.draggedCardId)
+			.map(card => card.id);
+		const cards = Array.from(columnCardsEl.querySelectorAll('.crystal-card:not(.crystal-card-dragging):not(.crystal-card-filtered-out)'));
+		const afterElement = this.getDragAfterElement(columnCardsEl, clientY);
 		
 		if (afterElement == null) {
-			return cards.length;
+			// Dropped below the last shown card: go right after it
+			const lastShown = cards[cards.length - 1];
+			const lastIndex = lastShown ? otherCardIds.indexOf(lastShown.getAttribute('data-card-id') || '') : -1;
+			return lastIndex === -1 ? otherCardIds.length : lastIndex + 1;
 		} else {
-			return cards.indexOf(afterElement);
+			const index = otherCardIds.indexOf(afterElement.getAttribute('data-card-id') || '');
+			return index === -1 ? otherCardIds.length : index;
 		}
 	}
 
 	private getDragAfterElement(container: HTMLElement, y: number): HTMLElement | null {
-		const draggableElements = Array.from(container.querySelectorAll('.crystal-card:not(.crystal-card-dragging)'));
+		const draggableElements = Array.from(container.querySelectorAll('.crystal-card:not(.crystal-card-dragging):not(.crystal-card-filtered-out)'));
 		
 		return draggableElements.reduce((closest, child) => {
 			const box = child.getBoundingClientRect();
@@ -196,7 +294,42 @@ export class DragDropManager {
 		}, { offset: Number.NEGATIVE_INFINITY, element: null }).element as HTMLElement | null;
 	}
 
+	/**
+	 * Move the insertion indicator to the spot where the card would be dropped
+	 */
+	private updateDropIndicator(columnCardsEl: HTMLElement, y: number): void {
+		if (!this.dropIndicator) {
+			this.dropIndicator = document.createElement('div');
+			this.dropIndicator.className = 'crystal-card-drop-indicator';
+		}
+
+		const afterElement = this.getDragAfterElement(columnCardsEl, y);
+		const addCardRow = columnCardsEl.querySelector('.crystal-add-card-row');
+		const referenceNode = afterElement || addCardRow;
+
+		// Avoid touching the DOM when the indicator is already in place
+		if (this.dropIndicator.parentElement === columnCardsEl &&
+			this.dropIndicator.nextElementSibling === referenceNode) {
+			return;
+		}
+
+		if (referenceNode) {
+			columnCardsEl.insertBefore(this.dropIndicator, referenceNode);
+		} else {
+			columnCardsEl.appendChild(this.dropIndicator);
+		}
+	}
+
+	private removeDropIndicator(): void {
+		if (this.dropIndicator) {
+			this.dropIndicator.remove();
+			this.dropIndicator = null;
+		}
+	}
+
 	private cleanup(): void {
+		this.touchDrag.cancel();
+
 		// Remove all event listeners
 		const cards = document.querySelectorAll('.crystal-card');
 		cards.forEach((card) => {
@@ -209,6 +342,7 @@ export class DragDropManager {
 			zone.classList.remove('crystal-drop-zone-active', 'crystal-drop-zone-hover');
 		});
 		
+		this.removeDropIndicator();
 		this.dropZones = [];
 		this.draggedCard = null;
 		this.draggedCardId = null;
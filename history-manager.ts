@@ -0,0 +1,223 @@
+import { Board } from './types';
+
+/**
+ * A recorded change that can be reverted and re-applied
+ */
+export interface HistoryCommand {
+	label: string;
+	boardIds: string[]; // Boards the change touched
+	undo(): Promise<void>;
+	redo(): Promise<void>;
+}
+
+/**
+ * A board as it was at one point, or null when it did not exist
+ */
+export interface BoardState {
+	id: string;
+	board: Board | null;
+}
+
+/**
+ * The subset of DataManager the history needs to capture and restore state
+ */
+export interface HistoryTarget {
+	getBoards(): Board[];
+	restoreBoardStates(states: BoardState[]): Promise<void>;
+}
+
+const MAX_HISTORY_SIZE = 50;
+
+/**
+ * Records board mutations as commands so they can be undone and redone.
+ *
+ * Mutations run inside `transaction()`; nested transactions (for example a bulk
+ * delete calling `removeCardFromColumn` for each card) collapse into the
+ * outermost one, so a single undo reverts the whole operation. A command only
+ * holds the boards the transaction changed, so undoing it leaves other boards alone.
+ *
+ * Changes that don't come from the user's own edits (external file edits, source
+ * sync, auto-archive) go through `runUntracked()` instead.
+ */
+export class HistoryManager {
+	private target: HistoryTarget;
+	private undoStack: HistoryCommand[] = [];
+	private redoStack: HistoryCommand[] = [];
+	private depth = 0;
+	private untracked = 0;
+	private restoring = false;
+	// Boards changed by untracked work while a transaction or restore was running
+	private untrackedBoardIds = new Set<string>();
+
+	constructor(target: HistoryTarget) {
+		this.target = target;
+	}
+
+	async transaction<T>(label: string, fn: () => Promise<T>): Promise<T> {
+		// Nested, restore-triggered and untracked changes belong to the enclosing step
+		if (this.depth > 0 || this.restoring || this.untracked > 0) {
+			this.depth++;
+			try {
+				return await fn();
+			} finally {
+				this.leave();
+			}
+		}
+
+		const before = this.snapshot();
+		this.depth++;
+		try {
+			return await fn();
+		} finally {
+			const command = this.createSnapshotCommand(label, before, this.snapshot(), this.untrackedBoardIds);
+			if (command) {
+				this.push(command);
+			}
+			this.leave();
+		}
+	}
+
+	/**
+	 * Run a change that should not be undoable. Recorded steps for the boards it changes
+	 * are dropped, since undoing them would bring back the state from before the change.
+	 * It runs right away, also inside a transaction or undo; the step being recorded then
+	 * leaves those boards out.
+	 */
+	async runUntracked<T>(fn: () => Promise<T>): Promise<T> {
+		const before = this.snapshot();
+		this.untracked++;
+		try {
+			return await fn();
+		} finally {
+			this.untracked--;
+			const boardIds = this.getChangedBoardIds(before, this.snapshot());
+			this.forgetBoards(boardIds);
+			if (this.depth > 0 || this.restoring) {
+				boardIds.forEach(id => this.untrackedBoardIds.add(id));
+			}
+		}
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	/**
+	 * The change the next undo would revert, or null
+	 */
+	peekUndo(): HistoryCommand | null {
+		return this.undoStack[this.undoStack.length - 1] || null;
+	}
+
+	/**
+	 * Revert the most recent change. Returns its label, or null if there was nothing to undo.
+	 */
+	async undo(): Promise<string | null> {
+		const command = this.undoStack.pop();
+		if (!command) return null;
+
+		if (await this.runRestoring(command, () => command.undo())) {
+			this.redoStack.push(command);
+		}
+		return command.label;
+	}
+
+	/**
+	 * Re-apply the most recently undone change. Returns its label, or null if there was nothing to redo.
+	 */
+	async redo(): Promise<string | null> {
+		const command = this.redoStack.pop();
+		if (!command) return null;
+
+		if (await this.runRestoring(command, () => command.redo())) {
+			this.undoStack.push(command);
+		}
+		return command.label;
+	}
+
+	/**
+	 * Forget every recorded change, for when the boards were replaced wholesale
+	 */
+	clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+
+	/**
+	 * Forget the recorded changes that touched any of these boards
+	 */
+	forgetBoards(boardIds: string[]): void {
+		if (boardIds.length === 0) return;
+		const touches = (command: HistoryCommand) => command.boardIds.some(id => boardIds.includes(id));
+		this.undoStack = this.undoStack.filter(command => !touches(command));
+		this.redoStack = this.redoStack.filter(command => !touches(command));
+	}
+
+	private push(command: HistoryCommand): void {
+		this.undoStack.push(command);
+		if (this.undoStack.length > MAX_HISTORY_SIZE) {
+			this.undoStack.shift();
+		}
+		// A new change invalidates anything that was undone before it
+		this.redoStack = [];
+	}
+
+	/**
+	 * Apply an undo or redo. Returns false when untracked work changed one of the
+	 * command's boards meanwhile, so the command can't be applied again.
+	 */
+	private async runRestoring(command: HistoryCommand, fn: () => Promise<void>): Promise<boolean> {
+		this.restoring = true;
+		try {
+			await fn();
+		} finally {
+			this.restoring = false;
+		}
+		const unchanged = !command.boardIds.some(id => this.untrackedBoardIds.has(id));
+		this.clearUntrackedIfIdle();
+		return unchanged;
+	}
+
+	private leave(): void {
+		this.depth--;
+		this.clearUntrackedIfIdle();
+	}
+
+	private clearUntrackedIfIdle(): void {
+		if (this.depth === 0 && !this.restoring) {
+			this.untrackedBoardIds.clear();
+		}
+	}
+
+	/**
+	 * Board ID → serialized board
+	 */
+	private snapshot(): Map<string, string> {
+		return new Map(this.target.getBoards().map(board => [board.id, JSON.stringify(board)]));
+	}
+
+	private getChangedBoardIds(before: Map<string, string>, after: Map<string, string>): string[] {
+		const ids = new Set([...before.keys(), ...after.keys()]);
+		return [...ids].filter(id => before.get(id) !== after.get(id));
+	}
+
+	private createSnapshotCommand(label: string, before: Map<string, string>, after: Map<string, string>, excludedIds: Set<string>): HistoryCommand | null {
+		const boardIds = this.getChangedBoardIds(before, after).filter(id => !excludedIds.has(id));
+		if (boardIds.length === 0) return null;
+
+		const states = (snapshot: Map<string, string>): BoardState[] => boardIds.map(id => {
+			const json = snapshot.get(id);
+			return { id, board: json === undefined ? null : JSON.parse(json) };
+		});
+		return {
+			label,
+			boardIds,
+			undo: () => this.target.restoreBoardStates(states(before)),
+			redo: () => this.target.restoreBoardStates(states(after))
+		};
+	}
+}
@@ -1,15 +1,24 @@
-import { Plugin, Notice, TFile } from 'obsidian';
+import { Plugin, Notice, Scope, TFile } from 'obsidian';
 import { DashboardView } from './dashboard-view';
 import { BoardView } from './board-view';
 import { DataManager } from './data-manager';
 import { TaskExtractionService } from './task-extraction-service';
+import { BackupManager } from './backup-manager';
+import { SourceSyncManager } from './source-sync';
 import { PluginSettings, DASHBOARD_VIEW_TYPE, BOARD_VIEW_TYPE, Board } from './types';
 import { CrystalBoardsSettingTab } from './settings-tab';
+import { CardSearchModal } from './card-search-modal';
+import { CardTemplateManager } from './card-templates';
+import { BoardTemplateManager } from './board-templates';
 
 export default class CrystalBoardsPlugin extends Plugin {
 	settings: PluginSettings;
 	dataManager: DataManager;
 	taskExtractionService: TaskExtractionService;
+	backupManager: BackupManager;
+	sourceSync: SourceSyncManager;
+	cardTemplates: CardTemplateManager;
+	boardTemplates: BoardTemplateManager;
 		async onload() {
 		
 
@@ -21,6 +30,18 @@ export default class CrystalBoardsPlugin extends Plugin {
 
 		// Initialize task extraction service
 		this.taskExtractionService = new TaskExtractionService(this.app, this);
+
+		// Initialize backup manager
+		this.backupManager = new BackupManager(this.app, this);
+
+		// Initialize checkbox sync between extracted cards and their source notes
+		this.sourceSync = new SourceSyncManager(this.app, this);
+
+		// Initialize card templates from settings and the template folder
+		this.cardTemplates = new CardTemplateManager(this.app, this);
+
+		// Initialize board templates: built-in presets and boards saved as templates
+		this.boardTemplates = new BoardTemplateManager(this);
 		
 		// Initialize smart extraction service
 		
@@ -29,6 +50,12 @@ export default class CrystalBoardsPlugin extends Plugin {
 		// Set up file watcher for task source file
 		this.setupTaskSourceFileWatcher();
 
+		// Set up file watcher for boards stored as markdown
+		this.setupBoardFileWatcher();
+
+		// Set up file watcher for notes that extracted cards sync with
+		this.setupSourceSyncWatcher();
+
 		// Register views
 		this.registerView(
 			DASHBOARD_VIEW_TYPE,
@@ -71,6 +98,88 @@ export default class CrystalBoardsPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'search-cards',
+			name: 'Search Cards Across All Boards',
+			callback: () => this.openCardSearch()
+		});
+
+		this.addCommand({
+			id: 'undo-board-change',
+			name: 'Undo Last Board Change',
+			checkCallback: (checking: boolean) => {
+				if (!this.dataManager.history.canUndo()) return false;
+				if (!checking) {
+					this.undoLastChange();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'redo-board-change',
+			name: 'Redo Board Change',
+			checkCallback: (checking: boolean) => {
+				if (!this.dataManager.history.canRedo()) return false;
+				if (!checking) {
+					this.redoLastChange();
+				}
+				return true;
+			}
+		});
+
+		// Act on the focused card of the active board; hotkeys can be assigned in Obsidian's settings
+		const focusedCardCommands: { id: string; name: string; run: (view: BoardView) => unknown }[] = [
+			{ id: 'open-focused-card', name: 'Open Focused Card', run: view => view.openFocusedCard() },
+			{ id: 'duplicate-focused-card', name: 'Duplicate Focused Card', run: view => view.duplicateFocusedCard() },
+			{ id: 'archive-focused-card', name: 'Archive Focused Card', run: view => view.archiveFocusedCard() },
+			{ id: 'delete-focused-card', name: 'Delete Focused Card', run: view => view.deleteFocusedCard() },
+			{ id: 'toggle-focused-card-selection', name: 'Select or Deselect Focused Card', run: view => view.toggleFocusedCardSelection() }
+		];
+		for (const command of focusedCardCommands) {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				checkCallback: (checking: boolean) => {
+					const view = this.app.workspace.getActiveViewOfType(BoardView);
+					if (!view || !view.getFocusedCard()) return false;
+					if (!checking) {
+						command.run(view);
+					}
+					return true;
+				}
+			});
+		}
+
+		this.addCommand({
+			id: 'save-board-as-template',
+			name: 'Save Current Board as Template',
+			checkCallback: (checking: boolean) => {
+				const view = this.app.workspace.getActiveViewOfType(BoardView);
+				if (!view) return false;
+				if (!checking) {
+					view.openSaveTemplateModal();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'export-backup',
+			name: 'Export Backup',
+			callback: () => {
+				this.backupManager.openExportDialog();
+			}
+		});
+
+		this.addCommand({
+			id: 'restore-backup',
+			name: 'Restore Backup',
+			callback: () => {
+				this.backupManager.openRestoreDialog();
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new CrystalBoardsSettingTab(this.app, this));
 
@@ -87,6 +196,12 @@ export default class CrystalBoardsPlugin extends Plugin {
 				await this.taskExtractionService.autoExtractOnStartup();
 			}, 1000);
 		}
+
+		// Archive cards that have been sitting in the done column, now and then hourly
+		this.app.workspace.onLayoutReady(() => this.runAutoArchive());
+		this.registerInterval(
+			window.setInterval(() => this.runAutoArchive(), 60 * 60 * 1000)
+		);
 	}
 
 	onunload() {
@@ -129,30 +244,86 @@ export default class CrystalBoardsPlugin extends Plugin {
 		// Watch for changes to the task source file
 		this.registerEvent(
 			this.app.vault.on('modify', async (file) => {
-				// Check if the modified file is our task source file
-				if (this.settings.taskSourcePath && 
-					file instanceof TFile && 
-					file.path === this.settings.taskSourcePath) {
-					
-					
-					
-					
-					// Debounce to avoid multiple rapid updates
-					if (this.taskSourceUpdateTimeout) {
-						clearTimeout(this.taskSourceUpdateTimeout);
-					}
-					
-					this.taskSourceUpdateTimeout = window.setTimeout(async () => {
-						// Re-extract tasks and update boards
-						await this.updateBoardsFromTaskSource();
-					}, 500); // Wait 500ms after last change
+				// Check if the modified file is covered by one of the task sources
+				if (file instanceof TFile && this.taskExtractionService.isSourceFile(file)) {
+					this.scheduleTaskSourceUpdate();
 				}
 			})
 		);
+
+		// New notes can join a folder, glob or daily notes source. Registered once the
+		// layout is ready, since the vault emits a create event for every file on startup.
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(
+				this.app.vault.on('create', (file) => {
+					if (file instanceof TFile && this.taskExtractionService.isSourceFile(file)) {
+						this.scheduleTaskSourceUpdate();
+					}
+				})
+			);
+		});
+	}
+
+	private scheduleTaskSourceUpdate(): void {
+		// Debounce to avoid multiple rapid updates
+		if (this.taskSourceUpdateTimeout) {
+			clearTimeout(this.taskSourceUpdateTimeout);
+		}
+		
+		this.taskSourceUpdateTimeout = window.setTimeout(async () => {
+			// Re-extract tasks and update boards
+			await this.updateBoardsFromTaskSource();
+		}, 500); // Wait 500ms after last change
 	}
 
 	private taskSourceUpdateTimeout: number | null = null;
 
+	/**
+	 * Setup file watcher for source notes of synced cards
+	 * Moves cards when their checkbox is ticked or unticked in the note
+	 */
+	private setupSourceSyncWatcher(): void {
+		this.registerEvent(
+			this.app.vault.on('modify', async (file) => {
+				if (file instanceof TFile) {
+					await this.sourceSync.handleFileModify(file);
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('rename', async (file, oldPath) => {
+				if (file instanceof TFile) {
+					await this.sourceSync.handleRename(file, oldPath);
+				}
+			})
+		);
+
+		this.app.workspace.onLayoutReady(() => this.sourceSync.initialize());
+	}
+
+	/**
+	 * Setup file watcher for board markdown files
+	 * Reloads a board when its file is edited outside the plugin
+	 */
+	private setupBoardFileWatcher(): void {
+		this.registerEvent(
+			this.app.vault.on('modify', async (file) => {
+				if (file instanceof TFile && await this.dataManager.reloadBoardFile(file)) {
+					await this.refreshBoardViews();
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('rename', async (file, oldPath) => {
+				if (file instanceof TFile) {
+					await this.dataManager.handleBoardFileRename(file, oldPath);
+				}
+			})
+		);
+	}
+
 	/**
 	 * Update boards when task source file changes
 	 */
@@ -163,31 +334,122 @@ export default class CrystalBoardsPlugin extends Plugin {
 			// Get current task counts from source
 			const stats = await this.taskExtractionService.getExtractionStats();
 			
+			await this.refreshBoardViews();
 			
-			// Update dashboard if it's open
-			const dashboardLeaves = this.app.workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE);
-			
-			for (const leaf of dashboardLeaves) {
-				if (leaf.view instanceof DashboardView) {
-					
-					await leaf.view.renderDashboard();
-				}
+		} catch (error) {
+			console.error('Error updating boards from task source:', error);
+		}
+	}
+
+	/**
+	 * Re-render the dashboard and reload any open boards from the data manager
+	 */
+	async refreshBoardViews(): Promise<void> {
+		// Update dashboard if it's open
+		const dashboardLeaves = this.app.workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE);
+		for (const leaf of dashboardLeaves) {
+			if (leaf.view instanceof DashboardView) {
+				await leaf.view.renderDashboard();
 			}
-			
-			// Update any open board views
-			const boardLeaves = this.app.workspace.getLeavesOfType(BOARD_VIEW_TYPE);
-			for (const leaf of boardLeaves) {
-				if (leaf.view instanceof BoardView) {
-					await leaf.view.refreshBoardData();
-				}
+		}
+		
+		// Update any open board views
+		const boardLeaves = this.app.workspace.getLeavesOfType(BOARD_VIEW_TYPE);
+		for (const leaf of boardLeaves) {
+			if (leaf.view instanceof BoardView) {
+				await leaf.view.refreshBoardData();
+			}
+		}
+	}
+
+	/**
+	 * Bind Mod+Z and Mod+Shift+Z to undo and redo in a view's scope. Keys pressed while
+	 * typing in a text field are left to the field's own undo.
+	 */
+	registerHistoryKeys(scope: Scope): void {
+		const isTextEntry = (evt: KeyboardEvent) => {
+			const target = evt.target as HTMLElement | null;
+			return !!target && (target.isContentEditable || !!target.closest('input, textarea, select'));
+		};
+		scope.register(['Mod'], 'z', (evt) => {
+			if (isTextEntry(evt)) return true;
+			this.undoLastChange();
+			return false;
+		});
+		scope.register(['Mod', 'Shift'], 'z', (evt) => {
+			if (isTextEntry(evt)) return true;
+			this.redoLastChange();
+			return false;
+		});
+	}
+
+	/**
+	 * Undo the most recent board change and refresh open views
+	 */
+	async undoLastChange(): Promise<void> {
+		const label = await this.dataManager.history.undo();
+		if (label) {
+			await this.refreshBoardViews();
+			new Notice(`↩️ Undid: ${label}`);
+		} else {
+			new Notice('Nothing to undo');
+		}
+	}
+
+	/**
+	 * Redo the most recently undone board change and refresh open views
+	 */
+	async redoLastChange(): Promise<void> {
+		const label = await this.dataManager.history.redo();
+		if (label) {
+			await this.refreshBoardViews();
+			new Notice(`↪️ Redid: ${label}`);
+		} else {
+			new Notice('Nothing to redo');
+		}
+	}
+
+	/**
+	 * Archive cards that have been in the configured done column for too long
+	 */
+	async runAutoArchive(): Promise<void> {
+		try {
+			const archivedCount = await this.dataManager.autoArchiveDoneCards();
+			if (archivedCount > 0) {
+				await this.refreshBoardViews();
+				new Notice(`📦 Auto-archived ${archivedCount} card${archivedCount === 1 ? '' : 's'}`);
 			}
-			
-			
 		} catch (error) {
-			console.error('Error updating boards from task source:', error);
+			console.error('Error auto-archiving cards:', error);
 		}
 	}
 
+	/**
+	 * Show a notice with an "Undo" button after a destructive change. The button only
+	 * undoes that change; once a newer change is on top of the history it is disabled.
+	 */
+	showUndoNotice(message: string): void {
+		const command = this.dataManager.history.peekUndo();
+		const fragment = document.createDocumentFragment();
+		fragment.createSpan({ text: message });
+		const undoBtn = fragment.createEl('button', {
+			text: 'Undo',
+			cls: 'crystal-undo-notice-btn'
+		});
+
+		const notice = new Notice(fragment, 8000);
+		undoBtn.onclick = async (e) => {
+			e.stopPropagation();
+			if (!command || this.dataManager.history.peekUndo() !== command) {
+				undoBtn.disabled = true;
+				undoBtn.setAttr('title', 'A newer change was made since');
+				return;
+			}
+			notice.hide();
+			await this.undoLastChange();
+		};
+	}
+
 	async openDashboardInCurrentTab(): Promise<void> {
 		const { workspace } = this.app;
 
@@ -228,9 +490,17 @@ export default class CrystalBoardsPlugin extends Plugin {
 				}
 			}
 		}
+
+		// Pick up checkboxes ticked while sync was off
+		if (newSettings.syncSourceCheckboxes && !oldSettings.syncSourceCheckboxes) {
+			await this.sourceSync.initialize();
+		}
 	}
 
-	async openBoard(board: Board): Promise<void> {
+	/**
+	 * Open a board, optionally scrolling to and highlighting one of its cards
+	 */
+	async openBoard(board: Board, focusCardId?: string): Promise<void> {
 		const { workspace } = this.app;
 
 		// Close existing board views
@@ -251,9 +521,16 @@ export default class CrystalBoardsPlugin extends Plugin {
 			const view = new BoardView(leaf, this, board);
 			await leaf.open(view);
 			workspace.revealLeaf(leaf);
+			if (focusCardId) {
+				await view.focusCard(focusCardId);
+			}
 		}
 	}
 
+	openCardSearch(initialQuery = ''): void {
+		new CardSearchModal(this.app, this, initialQuery).open();
+	}
+
 	/**
 	 * Setup global accent color change listener
 	 * Monitors CSS custom property changes and refreshes all open plugin views
@@ -0,0 +1,430 @@
+import { App, TFile, normalizePath, parseYaml, stringifyYaml } from 'obsidian';
+import { Board, Column, Card } from './types';
+
+/**
+ * Version of the board file layout, stored in the `crystal-board` frontmatter key
+ */
+export const BOARD_FILE_VERSION = 1;
+
+const COLUMN_META_PATTERN = /^<!-- crystal-column (.*) -->$/;
+const CARD_META_PATTERN = /^<!-- crystal-card (.*) -->$/;
+const ARCHIVE_META_PATTERN = /^<!-- crystal-archive (.*) -->$/;
+// A title that would otherwise be read back as a checkbox, possibly already escaped
+const CHECKBOX_TITLE_PATTERN = /^\\*\[[ xX]\] /;
+
+/**
+ * Stores each board as a markdown file inside its folder.
+ *
+ * Board fields live in the frontmatter, columns are `##` headings and cards are
+ * list items. Anything that has no natural markdown form (IDs, colors, todos,
+ * research links…) is kept as JSON in an HTML comment right below the heading
+ * or list item, so the file stays readable and still round-trips losslessly.
+ * Archived cards are kept as a single JSON comment at the end of the file.
+ */
+export class MarkdownBoardStorage {
+	private app: App;
+	// Board ID → path of its markdown file
+	private index: Record<string, string> = {};
+	// Path → content we last read or wrote, used to ignore our own modify events
+	private knownContent = new Map<string, string>();
+	// Paths that could not be parsed; their boards are kept on disk untouched
+	private unreadablePaths = new Set<string>();
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	getIndex(): Record<string, string> {
+		return { ...this.index };
+	}
+
+	isBoardFile(path: string): boolean {
+		return Object.values(this.index).includes(path);
+	}
+
+	/**
+	 * Read every indexed board file. Files that are missing or fail to parse are skipped
+	 * but stay in the index so they are not lost on the next save.
+	 */
+	async loadBoards(index: Record<string, string>): Promise<Board[]> {
+		this.index = { ...index };
+		const boards: Board[] = [];
+
+		for (const path of Object.values(this.index)) {
+			const board = await this.readBoardFile(path);
+			if (board) {
+				boards.push(board);
+			}
+		}
+
+		return boards;
+	}
+
+	/**
+	 * Write all boards whose markdown differs from what is on disk and trash
+	 * files of boards that no longer exist
+	 */
+	async saveBoards(boards: Board[]): Promise<void> {
+		const boardIds = new Set(boards.map(board => board.id));
+
+		for (const [boardId, path] of Object.entries(this.index)) {
+			if (!boardIds.has(boardId) && !this.unreadablePaths.has(path)) {
+				delete this.index[boardId];
+				this.knownContent.delete(path);
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile) {
+					await this.app.vault.trash(file, false);
+				}
+			}
+		}
+
+		for (const board of boards) {
+			const path = this.index[board.id] || await this.getAvailablePath(board);
+			const content = this.serializeBoard(board);
+
+			if (this.knownContent.get(path) === content) {
+				continue;
+			}
+
+			await this.ensureFolderExists(path.substring(0, path.lastIndexOf('/')));
+			const file = this.app.vault.getAbstractFileByPath(path);
+			// Record the content first so the resulting modify event is recognized as ours
+			this.knownContent.set(path, content);
+			if (file instanceof TFile) {
+				await this.app.vault.modify(file, content);
+			} else {
+				await this.app.vault.create(path, content);
+			}
+			this.index[board.id] = path;
+		}
+	}
+
+	/**
+	 * Re-read a board file after it changed outside the plugin.
+	 * Returns null if the file is not a board file or the change came from us.
+	 */
+	async readExternalChange(file: TFile): Promise<Board | null> {
+		if (!this.isBoardFile(file.path)) {
+			return null;
+		}
+
+		const content = await this.app.vault.read(file);
+		if (this.knownContent.get(file.path) === content) {
+			return null;
+		}
+
+		return this.readBoardFile(file.path);
+	}
+
+	/**
+	 * Keep the index pointing at a board file after it is renamed
+	 */
+	handleRename(file: TFile, oldPath: string): void {
+		for (const [boardId, path] of Object.entries(this.index)) {
+			if (path === oldPath) {
+				this.index[boardId] = file.path;
+				const content = this.knownContent.get(oldPath);
+				this.knownContent.delete(oldPath);
+				if (content !== undefined) {
+					this.knownContent.set(file.path, content);
+				}
+			}
+		}
+	}
+
+	private async readBoardFile(path: string): Promise<Board | null> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			console.warn(`Board file "${path}" not found`);
+			return null;
+		}
+
+		try {
+			const content = await this.app.vault.read(file);
+			const board = this.parseBoard(content);
+			this.knownContent.set(path, content);
+			this.unreadablePaths.delete(path);
+			this.index[board.id] = path;
+			return board;
+		} catch (error) {
+			console.error(`Failed to parse board file "${path}":`, error);
+			this.unreadablePaths.add(path);
+			return null;
+		}
+	}
+
+	/**
+	 * Path for a board that has no file yet: named after the board, with a number added
+	 * when another board or an existing file already uses that name
+	 */
+	private async getAvailablePath(board: Board): Promise<string> {
+		const base = normalizePath(`${board.folderPath}/${this.sanitizeFileName(board.name)}`);
+		const usedPaths = new Set(Object.values(this.index));
+		for (let i = 0; ; i++) {
+			const candidate = `${base}${i === 0 ? '' : ` ${i}`}.board.md`;
+			if (!usedPaths.has(candidate) && !(await this.app.vault.adapter.exists(candidate))) {
+				return candidate;
+			}
+		}
+	}
+
+	serializeBoard(board: Board): string {
+		const { columns, archivedCards, ...boardFields } = board;
+		const frontmatter = stringifyYaml({
+			'crystal-board': BOARD_FILE_VERSION,
+			...this.withoutUndefined(boardFields)
+		}).trimEnd();
+
+		const lines = ['---', frontmatter, '---', '', `# ${this.singleLine(board.name)}`];
+
+		const sortedColumns = [...columns].sort((a, b) => a.position - b.position);
+		for (const column of sortedColumns) {
+			const { name, cards, ...columnMeta } = column;
+			lines.push('', `## ${this.singleLine(name)}`);
+			lines.push(`<!-- crystal-column ${JSON.stringify(this.withExactField(columnMeta, 'name', name))} -->`);
+			if (cards.length > 0) {
+				lines.push('');
+			}
+
+			for (const card of cards) {
+				const { title, description, ...cardMeta } = card;
+				// Escape titles that look like a checkbox so the checkbox isn't stripped on reading
+				const shownTitle = this.singleLine(title);
+				lines.push(`- ${CHECKBOX_TITLE_PATTERN.test(shownTitle) ? `\\${shownTitle}` : shownTitle}`);
+				let meta = this.withExactField(cardMeta, 'title', title);
+				// The list item drops trailing blank lines, so keep such descriptions whole
+				if (description && /\n\s*$/.test(description)) {
+					meta = { ...meta, description };
+				}
+				lines.push(`\t<!-- crystal-card ${JSON.stringify(meta)} -->`);
+				if (description) {
+					description.split('\n').forEach(line => lines.push(`\t${line}`));
+				}
+			}
+		}
+
+		if (archivedCards && archivedCards.length > 0) {
+			lines.push('', `<!-- crystal-archive ${JSON.stringify(archivedCards)} -->`);
+		}
+
+		return lines.join('\n') + '\n';
+	}
+
+	parseBoard(content: string): Board {
+		const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+		if (!frontmatterMatch) {
+			throw new Error('Missing frontmatter');
+		}
+
+		const frontmatter = parseYaml(frontmatterMatch[1]) || {};
+		if (frontmatter['crystal-board'] === undefined) {
+			throw new Error('Not a Crystal Boards file');
+		}
+		if (frontmatter['crystal-board'] > BOARD_FILE_VERSION) {
+			throw new Error(`Board file version ${frontmatter['crystal-board']} is newer than supported`);
+		}
+
+		const { 'crystal-board': _version, ...boardFields } = frontmatter;
+		const now = Date.now();
+		const columns: Column[] = [];
+		let currentColumn: Column | null = null;
+		let currentCard: Card | null = null;
+		let descriptionLines: string[] = [];
+		let archivedCards: any[] | undefined;
+
+		// Only the first line under a card can be its comment; later ones are description text
+		let cardMetaAllowed = false;
+		let cardHasMetaDescription = false;
+		// Title → number of cards with that title so far in the current column
+		let titleCounts = new Map<string, number>();
+
+		const finishCard = () => {
+			if (currentCard && currentColumn) {
+				if (!cardHasMetaDescription) {
+					// Drop trailing blank lines picked up between cards
+					while (descriptionLines.length > 0 && descriptionLines[descriptionLines.length - 1].trim() === '') {
+						descriptionLines.pop();
+					}
+					currentCard.description = descriptionLines.join('\n');
+				}
+				// Cards added by hand have no ID yet; derive one that stays the same on every read
+				if (!currentCard.id) {
+					const count = titleCounts.get(currentCard.title) || 0;
+					titleCounts.set(currentCard.title, count + 1);
+					currentCard.id = this.deriveId('card', `${currentColumn.position}\n${currentColumn.name}\n${currentCard.title}\n${count}`);
+				}
+			}
+			currentCard = null;
+			cardMetaAllowed = false;
+			cardHasMetaDescription = false;
+			descriptionLines = [];
+		};
+
+		const lines = content.substring(frontmatterMatch[0].length).split(/\r?\n/);
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+
+			if (currentCard) {
+				const indentMatch = line.match(/^(\t| {2,4})(.*)$/);
+				if (indentMatch) {
+					const metaMatch = cardMetaAllowed ? indentMatch[2].match(CARD_META_PATTERN) : null;
+					cardMetaAllowed = false;
+					if (metaMatch) {
+						const meta = this.parseMeta(metaMatch[1]);
+						cardHasMetaDescription = typeof meta.description === 'string';
+						Object.assign(currentCard, meta);
+					} else {
+						descriptionLines.push(indentMatch[2]);
+					}
+					continue;
+				}
+
+				// A blank line only belongs to the card if more indented content follows
+				if (line.trim() === '') {
+					const next = lines.slice(i + 1).find(l => l.trim() !== '');
+					if (next !== undefined && /^(\t| {2,4})/.test(next)) {
+						cardMetaAllowed = false;
+						descriptionLines.push('');
+						continue;
+					}
+				}
+
+				finishCard();
+			}
+
+			const archiveMatch = line.match(ARCHIVE_META_PATTERN);
+			if (archiveMatch) {
+				try {
+					const parsed = JSON.parse(archiveMatch[1]);
+					archivedCards = Array.isArray(parsed) ? parsed : undefined;
+				} catch {
+					archivedCards = undefined;
+				}
+				continue;
+			}
+
+			const headingMatch = line.match(/^## (.*)$/);
+			if (headingMatch) {
+				currentColumn = {
+					id: '', // From the column comment, or derived below
+					name: headingMatch[1].trim(),
+					color: '#E8E8E8',
+					position: columns.length,
+					cards: []
+				};
+				columns.push(currentColumn);
+				titleCounts = new Map();
+				continue;
+			}
+
+			const columnMetaMatch = line.match(COLUMN_META_PATTERN);
+			if (columnMetaMatch && currentColumn) {
+				const { cards: _cards, ...meta } = this.parseMeta(columnMetaMatch[1]);
+				Object.assign(currentColumn, meta, { position: columns.length - 1 });
+				continue;
+			}
+
+			const itemMatch = line.match(/^[-*+] (?:\[[ xX]\] )?(.*)$/);
+			if (itemMatch && currentColumn) {
+				let title = itemMatch[1].trim();
+				if (title.startsWith('\\') && CHECKBOX_TITLE_PATTERN.test(title)) {
+					title = title.substring(1);
+				}
+				const card: Card = {
+					id: '', // From the card comment, or derived once the card is complete
+					title,
+					description: '',
+					tags: [],
+					noteLinks: [],
+					todos: [],
+					researchUrls: [],
+					created: now,
+					modified: now
+				};
+				currentColumn.cards.push(card);
+				currentCard = card;
+				cardMetaAllowed = true;
+			}
+		}
+		finishCard();
+		for (const column of columns) {
+			if (!column.id) {
+				column.id = this.deriveId('column', `${column.position}\n${column.name}`);
+			}
+		}
+
+		// Keep the frontmatter key order so re-serializing gives the same file
+		const board: Board = { ...boardFields, columns };
+		board.id = board.id || this.generateId('board');
+		board.name = board.name || 'Untitled Board';
+		board.folderPath = board.folderPath || '';
+		board.position = board.position ?? 0;
+		board.created = board.created ?? now;
+		board.modified = board.modified ?? now;
+		if (archivedCards) {
+			board.archivedCards = archivedCards;
+		}
+		return board;
+	}
+
+	private parseMeta(json: string): any {
+		try {
+			const meta = JSON.parse(json);
+			return meta && typeof meta === 'object' ? meta : {};
+		} catch {
+			return {};
+		}
+	}
+
+	/**
+	 * Headings and list items hold a single trimmed line; keep the exact value in the
+	 * JSON comment when it spans several lines or starts or ends with whitespace
+	 */
+	private withExactField(meta: Record<string, any>, key: string, value: string): Record<string, any> {
+		return value.includes('\n') || value !== value.trim() ? { ...meta, [key]: value } : meta;
+	}
+
+	private singleLine(value: string): string {
+		return value.replace(/\s*\n\s*/g, ' ');
+	}
+
+	private withoutUndefined(value: Record<string, any>): Record<string, any> {
+		const result: Record<string, any> = {};
+		for (const [key, fieldValue] of Object.entries(value)) {
+			if (fieldValue !== undefined) {
+				result[key] = fieldValue;
+			}
+		}
+		return result;
+	}
+
+	private sanitizeFileName(name: string): string {
+		return name
+			.replace(/[<>:"/\\|?*]/g, '') // Remove invalid characters
+			.replace(/\s+/g, ' ') // Replace multiple spaces with single space
+			.trim()
+			.substring(0, 100); // Limit length
+	}
+
+	private async ensureFolderExists(path: string): Promise<void> {
+		if (path && !(await this.app.vault.adapter.exists(path))) {
+			await this.app.vault.createFolder(path);
+		}
+	}
+
+	/**
+	 * An ID that only depends on the text it is derived from (FNV-1a hash)
+	 */
+	private deriveId(prefix: string, text: string): string {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < text.length; i++) {
+			hash ^= text.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return `${prefix}-${(hash >>> 0).toString(36)}`;
+	}
+
+	private generateId(prefix: string): string {
+		return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+	}
+}
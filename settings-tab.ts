@@ -1,5 +1,8 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, Modal, PluginSettingTab, Setting, Notice } from 'obsidian';
 import CrystalBoardsPlugin from './main';
+import { BoardImporter, ImportAction, ImportCandidate } from './board-importer';
+import { CardTemplate, ExtractedTaskDestination, RoutingMatchType, RoutingRule, TaskSource, TaskSourceType } from './types';
+import { RoutingPreview } from './task-extraction-service';
 
 export class CrystalBoardsSettingTab extends PluginSettingTab {
 	plugin: CrystalBoardsPlugin;
@@ -61,6 +64,8 @@ export class CrystalBoardsSettingTab extends PluginSettingTab {
 					await this.plugin.updateSettings({ taskSourcePath: value });
 				}));
 
+		this.renderTaskSources(containerEl);
+
 		new Setting(containerEl)
 			.setName('Auto-extract on Startup')
 			.setDesc('Automatically extract tasks when the plugin loads')
@@ -89,8 +94,50 @@ export class CrystalBoardsSettingTab extends PluginSettingTab {
 				.setValue(this.plugin.settings.removeExtractedTasks || false)
 				.onChange(async (value) => {
 					await this.plugin.updateSettings({ removeExtractedTasks: value });
+					this.display();
 				}));
 
+		if (this.plugin.settings.removeExtractedTasks) {
+			const destination = this.plugin.settings.extractedTaskDestination || 'delete';
+
+			new Setting(containerEl)
+				.setName('Removed Tasks Go To')
+				.setDesc('Delete extracted lines, or keep them out of the way in an "Extracted" section or an archive note')
+				.addDropdown(dropdown => dropdown
+					.addOption('delete', 'Delete')
+					.addOption('section', 'Extracted section in the same note')
+					.addOption('note', 'Archive note')
+					.setValue(destination)
+					.onChange(async (value) => {
+						await this.plugin.updateSettings({ extractedTaskDestination: value as ExtractedTaskDestination });
+						this.display();
+					}));
+
+			if (destination === 'section') {
+				new Setting(containerEl)
+					.setName('Extracted Section Heading')
+					.setDesc('Heading the lines are moved under. Tasks in this section are never extracted again.')
+					.addText(text => text
+						.setPlaceholder('Extracted')
+						.setValue(this.plugin.settings.extractedSectionHeading || 'Extracted')
+						.onChange(async (value) => {
+							await this.plugin.updateSettings({ extractedSectionHeading: value });
+						}));
+			}
+
+			if (destination === 'note') {
+				new Setting(containerEl)
+					.setName('Archive Note')
+					.setDesc('Note the lines are appended to. It is skipped by folder, glob and daily note sources.')
+					.addText(text => text
+						.setPlaceholder('Extracted Tasks.md')
+						.setValue(this.plugin.settings.extractedArchivePath || 'Extracted Tasks.md')
+						.onChange(async (value) => {
+							await this.plugin.updateSettings({ extractedArchivePath: value });
+						}));
+			}
+		}
+
 		new Setting(containerEl)
 			.setName('Default Board for Untagged Tasks')
 			.setDesc('Board name to use for tasks without matching tags')
@@ -111,39 +158,514 @@ export class CrystalBoardsSettingTab extends PluginSettingTab {
 					await this.plugin.updateSettings({ extractionColumnName: value });
 				}));
 
+		new Setting(containerEl)
+			.setName('Template for New Boards')
+			.setDesc('Board template used when extraction creates a board that does not exist yet')
+			.addDropdown(dropdown => {
+				this.plugin.boardTemplates.getTemplates().forEach(template => dropdown.addOption(template.id, template.name));
+				dropdown.setValue(this.plugin.boardTemplates.getTemplate(this.plugin.settings.extractionBoardTemplate).id)
+					.onChange(async (value) => {
+						await this.plugin.updateSettings({ extractionBoardTemplate: value });
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Sync Checkboxes with Source')
+			.setDesc('Tick the source checkbox when a card moves to the done column, and move the card when its checkbox is ticked. Requires "Remove Extracted Tasks" to be off.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncSourceCheckboxes || false)
+				.onChange(async (value) => {
+					await this.plugin.updateSettings({ syncSourceCheckboxes: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Done Column for Synced Cards')
+			.setDesc('Cards in columns with this name count as ticked in their source note')
+			.addText(text => text
+				.setPlaceholder('Done')
+				.setValue(this.plugin.settings.syncDoneColumnName || 'Done')
+				.onChange(async (value) => {
+					await this.plugin.updateSettings({ syncDoneColumnName: value });
+				}));
+
+		// Routing rules section
+		containerEl.createEl('h3', { text: 'Routing Rules' });
+		containerEl.createEl('p', { 
+			text: 'Send extracted tasks to a specific board and column. Rules are checked from top to bottom and the first match wins; tasks no rule matches use their hashtags.',
+			cls: 'setting-item-description'
+		});
+
+		this.renderRoutingRules(containerEl);
+
+		// Card templates section
+		containerEl.createEl('h3', { text: 'Card Templates' });
+		containerEl.createEl('p', {
+			text: 'Starting points for new cards, picked from the ▾ next to "+ Add Card" or set as a column default. {{date}}, {{date:FORMAT}}, {{board}} and {{column}} are filled in when the card is created.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Template Folder')
+			.setDesc('Notes in this folder are templates too: frontmatter title and tags, checklist items become todos, lines with only a link become research links and the rest is the description')
+			.addText(text => text
+				.setPlaceholder('Templates/Cards')
+				.setValue(this.plugin.settings.cardTemplateFolder || '')
+				.onChange(async (value) => {
+					await this.plugin.updateSettings({ cardTemplateFolder: value.trim() });
+				}));
+
+		this.renderCardTemplates(containerEl);
+
+		// Board templates section
+		containerEl.createEl('h3', { text: 'Board Templates' });
+		containerEl.createEl('p', {
+			text: 'New boards start from a template: the Basic, Reading Pipeline, Content Calendar and Bug Triage presets, or a board saved with "Save as Template" in its header.',
+			cls: 'setting-item-description'
+		});
+
+		this.renderBoardTemplates(containerEl);
+
+		// Archive section
+		containerEl.createEl('h3', { text: 'Archive' });
+
+		new Setting(containerEl)
+			.setName('Auto-archive Finished Cards')
+			.setDesc('Move cards to the board archive after they have been in the done column for a while')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoArchiveEnabled || false)
+				.onChange(async (value) => {
+					await this.plugin.updateSettings({ autoArchiveEnabled: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Done Column Name')
+			.setDesc('Cards in columns with this name are auto-archived')
+			.addText(text => text
+				.setPlaceholder('Done')
+				.setValue(this.plugin.settings.autoArchiveColumnName || 'Done')
+				.onChange(async (value) => {
+					await this.plugin.updateSettings({ autoArchiveColumnName: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Archive After (Days)')
+			.setDesc('Number of days a card stays in the done column before it is archived')
+			.addText(text => text
+				.setPlaceholder('14')
+				.setValue(String(this.plugin.settings.autoArchiveAfterDays ?? 14))
+				.onChange(async (value) => {
+					const days = parseInt(value);
+					if (!isNaN(days) && days > 0) {
+						await this.plugin.updateSettings({ autoArchiveAfterDays: days });
+					}
+				}));
+
 		// Data management section
 		containerEl.createEl('h3', { text: 'Data Management' });
 
+		new Setting(containerEl)
+			.setName('Board Storage')
+			.setDesc('Where boards are saved. Markdown files live in each board folder, so they show up in search, git and sync tools.')
+			.addDropdown(dropdown => dropdown
+				.addOption('data-json', 'Plugin data (data.json)')
+				.addOption('markdown', 'Markdown files in the vault')
+				.setValue(this.plugin.settings.storageBackend || 'data-json')
+				.onChange(async (value) => {
+					// Saving with the new backend moves every board over
+					await this.plugin.updateSettings({ storageBackend: value as 'data-json' | 'markdown' });
+					new Notice(value === 'markdown'
+						? 'Boards are now stored as markdown files'
+						: 'Boards are now stored in plugin data');
+				}));
+
 		new Setting(containerEl)
 			.setName('Export Data')
-			.setDesc('Export all your board data as JSON')
+			.setDesc('Export a versioned backup of your boards and settings, optionally with linked notes and cover images')
 			.addButton(button => button
 				.setButtonText('Export')
-				.onClick(async () => {
-					await this.exportData();
+				.onClick(() => {
+					this.plugin.backupManager.openExportDialog();
 				}));
 
 		new Setting(containerEl)
 			.setName('Import Data')
-			.setDesc('Import board data from JSON file')
+			.setDesc('Import boards from an export file, choosing how to handle each one')
 			.addButton(button => button
 				.setButtonText('Import')
 				.onClick(async () => {
 					await this.importData();
 				}));
+
+		new Setting(containerEl)
+			.setName('Restore Backup')
+			.setDesc('Replace all boards and settings with the contents of a backup file')
+			.addButton(button => button
+				.setButtonText('Restore')
+				.setWarning()
+				.onClick(() => {
+					this.plugin.backupManager.openRestoreDialog();
+				}));
 	}
 
-	private async exportData(): Promise<void> {
-		const data = this.plugin.dataManager.getBoards();
-		const dataStr = JSON.stringify(data, null, 2);
-		const blob = new Blob([dataStr], { type: 'application/json' });
-		
-		const a = document.createElement('a');
-		a.href = URL.createObjectURL(blob);
-		a.download = `crystal-boards-export-${new Date().toISOString().split('T')[0]}.json`;
-		a.click();
-		
-		URL.revokeObjectURL(a.href);
+	/**
+	 * Additional task sources, each with its own default board and column
+	 */
+	private renderTaskSources(containerEl: HTMLElement): void {
+		const sources = this.plugin.settings.taskSources || [];
+		const sourcesEl = containerEl.createEl('div', { cls: 'crystal-task-sources' });
+
+		const saveSources = async (updated: TaskSource[]) => {
+			await this.plugin.updateSettings({ taskSources: updated });
+		};
+
+		const updateSource = async (index: number, changes: Partial<TaskSource>) => {
+			const updated = [...(this.plugin.settings.taskSources || [])];
+			updated[index] = { ...updated[index], ...changes };
+			await saveSources(updated);
+		};
+
+		const pathPlaceholders: Record<TaskSourceType, string> = {
+			'file': 'Meetings/Standup.md',
+			'folder': 'Meetings',
+			'glob': 'Projects/**/Tasks*.md',
+			'daily-notes': 'Daily note folder (optional)'
+		};
+
+		new Setting(sourcesEl)
+			.setName('Additional Task Sources')
+			.setDesc('Extract tasks from more notes: a file, every note in a folder, notes matching a glob, or recent daily notes')
+			.addButton(button => button
+				.setButtonText('+ Add Source')
+				.onClick(async () => {
+					const newSource: TaskSource = {
+						id: `source-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+						type: 'folder',
+						path: '',
+						enabled: true
+					};
+					await saveSources([...(this.plugin.settings.taskSources || []), newSource]);
+					this.display();
+				}));
+
+		sources.forEach((source, index) => {
+			const sourceEl = sourcesEl.createEl('div', { cls: 'crystal-task-source' });
+
+			new Setting(sourceEl)
+				.setName(`Source ${index + 1}`)
+				.addDropdown(dropdown => dropdown
+					.addOption('file', 'File')
+					.addOption('folder', 'Folder')
+					.addOption('glob', 'Glob pattern')
+					.addOption('daily-notes', 'Daily notes')
+					.setValue(source.type)
+					.onChange(async (value) => {
+						await updateSource(index, { type: value as TaskSourceType });
+						this.display();
+					}))
+				.addText(text => text
+					.setPlaceholder(pathPlaceholders[source.type])
+					.setValue(source.path)
+					.onChange(async (value) => {
+						await updateSource(index, { path: value.trim() });
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(source.enabled)
+					.onChange(async (value) => {
+						await updateSource(index, { enabled: value });
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove source')
+					.onClick(async () => {
+						const updated = [...(this.plugin.settings.taskSources || [])];
+						updated.splice(index, 1);
+						await saveSources(updated);
+						this.display();
+					}));
+
+			if (source.type === 'daily-notes') {
+				new Setting(sourceEl)
+					.setName('Days')
+					.setDesc('Read daily notes from this many days back, including today. The date format defaults to the Daily notes plugin setting.')
+					.addText(text => text
+						.setPlaceholder('7')
+						.setValue(String(source.days ?? 7))
+						.onChange(async (value) => {
+							const days = parseInt(value);
+							if (!isNaN(days) && days > 0) {
+								await updateSource(index, { days });
+							}
+						}))
+					.addText(text => text
+						.setPlaceholder('YYYY-MM-DD')
+						.setValue(source.dateFormat || '')
+						.onChange(async (value) => {
+							await updateSource(index, { dateFormat: value.trim() || undefined });
+						}));
+			}
+
+			new Setting(sourceEl)
+				.setName('Default board and column')
+				.setDesc('Where untagged tasks and new cards from this source go. Leave empty to use the defaults below.')
+				.addText(text => text
+					.setPlaceholder(this.plugin.settings.defaultExtractionBoard || 'Inbox')
+					.setValue(source.defaultBoard || '')
+					.onChange(async (value) => {
+						await updateSource(index, { defaultBoard: value.trim() || undefined });
+					}))
+				.addText(text => text
+					.setPlaceholder(this.plugin.settings.extractionColumnName || 'To Do')
+					.setValue(source.defaultColumn || '')
+					.onChange(async (value) => {
+						await updateSource(index, { defaultColumn: value.trim() || undefined });
+					}));
+		});
+	}
+
+	/**
+	 * Ordered list of routing rules with add, reorder, remove and preview controls
+	 */
+	private renderRoutingRules(containerEl: HTMLElement): void {
+		const rules = this.plugin.settings.routingRules || [];
+		const rulesEl = containerEl.createEl('div', { cls: 'crystal-routing-rules' });
+
+		const saveRules = async (updated: RoutingRule[]) => {
+			await this.plugin.updateSettings({ routingRules: updated });
+		};
+
+		const updateRule = async (index: number, changes: Partial<RoutingRule>) => {
+			const updated = [...(this.plugin.settings.routingRules || [])];
+			updated[index] = { ...updated[index], ...changes };
+			await saveRules(updated);
+		};
+
+		const moveRule = async (index: number, offset: number) => {
+			const updated = [...(this.plugin.settings.routingRules || [])];
+			const [rule] = updated.splice(index, 1);
+			updated.splice(index + offset, 0, rule);
+			await saveRules(updated);
+			this.display();
+		};
+
+		const patternPlaceholders: Record<RoutingMatchType, string> = {
+			'tag': 'work, meeting',
+			'keyword': 'invoice, pay',
+			'regex': '^call\\b',
+			'source': 'Meetings/**',
+			'domain': 'github.com'
+		};
+
+		rules.forEach((rule, index) => {
+			const ruleEl = rulesEl.createEl('div', { cls: 'crystal-routing-rule' });
+
+			new Setting(ruleEl)
+				.setName(`${index + 1}.`)
+				.addText(text => text
+					.setPlaceholder('Rule name')
+					.setValue(rule.name)
+					.onChange(async (value) => {
+						await updateRule(index, { name: value });
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						await updateRule(index, { enabled: value });
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => moveRule(index, -1)))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === rules.length - 1)
+					.onClick(() => moveRule(index, 1)))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove rule')
+					.onClick(async () => {
+						const updated = [...(this.plugin.settings.routingRules || [])];
+						updated.splice(index, 1);
+						await saveRules(updated);
+						this.display();
+					}));
+
+			new Setting(ruleEl)
+				.setName('When')
+				.addDropdown(dropdown => dropdown
+					.addOption('tag', 'Has tag')
+					.addOption('keyword', 'Contains keyword')
+					.addOption('regex', 'Matches regex')
+					.addOption('source', 'Comes from note')
+					.addOption('domain', 'Links to domain')
+					.setValue(rule.matchType)
+					.onChange(async (value) => {
+						await updateRule(index, { matchType: value as RoutingMatchType });
+						this.display();
+					}))
+				.addText(text => text
+					.setPlaceholder(patternPlaceholders[rule.matchType])
+					.setValue(rule.pattern)
+					.onChange(async (value) => {
+						await updateRule(index, { pattern: value });
+					}));
+
+			new Setting(ruleEl)
+				.setName('Send to board and column')
+				.addText(text => text
+					.setPlaceholder('Board (keep tag board)')
+					.setValue(rule.board || '')
+					.onChange(async (value) => {
+						await updateRule(index, { board: value.trim() || undefined });
+					}))
+				.addText(text => text
+					.setPlaceholder('Column (keep default)')
+					.setValue(rule.column || '')
+					.onChange(async (value) => {
+						await updateRule(index, { column: value.trim() || undefined });
+					}));
+
+			new Setting(ruleEl)
+				.setName('Add tags and title prefix')
+				.addText(text => text
+					.setPlaceholder('urgent, client')
+					.setValue((rule.addTags || []).join(', '))
+					.onChange(async (value) => {
+						const addTags = value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag);
+						await updateRule(index, { addTags });
+					}))
+				.addText(text => text
+					.setPlaceholder('🔥 ')
+					.setValue(rule.titlePrefix || '')
+					.onChange(async (value) => {
+						await updateRule(index, { titlePrefix: value || undefined });
+					}));
+		});
+
+		new Setting(rulesEl)
+			.addButton(button => button
+				.setButtonText('Preview Routing')
+				.onClick(async () => {
+					try {
+						const previews = await this.plugin.taskExtractionService.previewRouting();
+						new RoutingPreviewModal(this.app, previews).open();
+					} catch (error) {
+						new Notice(`❌ Cannot preview routing: ${error.message}`);
+					}
+				}))
+			.addButton(button => button
+				.setButtonText('+ Add Rule')
+				.setCta()
+				.onClick(async () => {
+					const newRule: RoutingRule = {
+						id: `rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+						name: '',
+						enabled: true,
+						matchType: 'tag',
+						pattern: ''
+					};
+					await saveRules([...(this.plugin.settings.routingRules || []), newRule]);
+					this.display();
+				}));
+	}
+
+	/**
+	 * Card templates stored in the settings, edited in a modal
+	 */
+	private renderCardTemplates(containerEl: HTMLElement): void {
+		const templates = this.plugin.settings.cardTemplates || [];
+		const templatesEl = containerEl.createEl('div', { cls: 'crystal-card-templates' });
+
+		const saveTemplate = async (template: CardTemplate) => {
+			const updated = [...(this.plugin.settings.cardTemplates || [])];
+			const index = updated.findIndex(existing => existing.id === template.id);
+			if (index === -1) {
+				updated.push(template);
+			} else {
+				updated[index] = template;
+			}
+			await this.plugin.updateSettings({ cardTemplates: updated });
+			this.display();
+		};
+
+		templates.forEach((template, index) => {
+			const details = [
+				template.title ? `Title: ${template.title}` : '',
+				template.todos.length > 0 ? `${template.todos.length} todos` : '',
+				template.researchUrls.length > 0 ? `${template.researchUrls.length} links` : '',
+				template.tags.length > 0 ? template.tags.join(', ') : ''
+			].filter(detail => detail);
+
+			new Setting(templatesEl)
+				.setName(template.name || '(unnamed template)')
+				.setDesc(details.join(' • '))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit template')
+					.onClick(() => new CardTemplateModal(this.app, template, saveTemplate).open()))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove template')
+					.onClick(async () => {
+						const updated = [...(this.plugin.settings.cardTemplates || [])];
+						updated.splice(index, 1);
+						await this.plugin.updateSettings({ cardTemplates: updated });
+						this.display();
+					}));
+		});
+
+		new Setting(templatesEl)
+			.addButton(button => button
+				.setButtonText('+ Add Template')
+				.setCta()
+				.onClick(() => {
+					const newTemplate: CardTemplate = {
+						id: `template-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+						name: '',
+						title: '',
+						description: '',
+						tags: [],
+						todos: [],
+						researchUrls: []
+					};
+					new CardTemplateModal(this.app, newTemplate, saveTemplate).open();
+				}));
+	}
+
+	/**
+	 * Board templates saved from boards; the built-in presets can't be removed
+	 */
+	private renderBoardTemplates(containerEl: HTMLElement): void {
+		const templates = this.plugin.settings.boardTemplates || [];
+		const templatesEl = containerEl.createEl('div', { cls: 'crystal-board-templates' });
+
+		if (templates.length === 0) {
+			templatesEl.createEl('p', { text: 'No saved board templates yet.', cls: 'setting-item-description' });
+			return;
+		}
+
+		for (const template of templates) {
+			const cardCount = template.columns.reduce((sum, column) => sum + column.cards.length, 0);
+			const details = [
+				template.description || '',
+				template.columns.map(column => column.name).join(' → '),
+				cardCount > 0 ? `${cardCount} starter cards` : ''
+			].filter(detail => detail);
+
+			new Setting(templatesEl)
+				.setName(`${template.emoji ? `${template.emoji} ` : ''}${template.name}`)
+				.setDesc(details.join(' • '))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove template')
+					.onClick(async () => {
+						await this.plugin.boardTemplates.deleteTemplate(template.id);
+						this.display();
+					}));
+		}
 	}
 
 	private async importData(): Promise<void> {
@@ -155,31 +677,306 @@ export class CrystalBoardsSettingTab extends PluginSettingTab {
 			const file = (e.target as HTMLInputElement).files?.[0];
 			if (!file) return;
 			
+			let importedData: any[];
 			try {
 				const text = await file.text();
-				const importedData = JSON.parse(text);
-				
-				// Validate the data structure
-				if (!Array.isArray(importedData)) {
-					throw new Error('Invalid data format');
-				}
-				
-				// TODO: Implement data validation and import logic
-				
-				
-				// For now, just log the data
-				// In a full implementation, you'd want to:
-				// 1. Validate each board structure
-				// 2. Ask user about conflicts
-				// 3. Merge or replace existing data
-				// 4. Update the dashboard
-				
+				// Accepts both current backups and older bare board lists
+				importedData = this.plugin.backupManager.parseExport(JSON.parse(text)).boards;
 			} catch (error) {
 				console.error('Error importing data:', error);
-				// TODO: Show error message to user
+				new Notice(`❌ Import failed: ${error instanceof SyntaxError ? `${file.name} is not valid JSON` : error.message}`);
+				return;
+			}
+			
+			if (importedData.length === 0) {
+				new Notice('Nothing to import: the file contains no boards');
+				return;
 			}
+			
+			const importer = new BoardImporter(this.app, this.plugin);
+			const candidates = importer.analyze(importedData);
+			
+			new ImportPreviewModal(this.app, importer, candidates, async (confirmed) => {
+				try {
+					const summary = await importer.apply(confirmed);
+					await this.plugin.refreshBoardViews();
+					
+					const messages = ['✅ Import complete'];
+					if (summary.added.length > 0) messages.push(`➕ Added: ${summary.added.join(', ')}`);
+					if (summary.merged.length > 0) messages.push(`🔀 Merged: ${summary.merged.join(', ')}`);
+					if (summary.replaced.length > 0) messages.push(`♻️ Replaced: ${summary.replaced.join(', ')}`);
+					if (summary.skipped.length > 0) messages.push(`⏭️ Skipped: ${summary.skipped.join(', ')}`);
+					new Notice(messages.join('\n'), 7000);
+				} catch (error) {
+					console.error('Error importing data:', error);
+					new Notice(`❌ Import failed: ${error.message}`);
+				}
+			}).open();
 		};
 		
 		input.click();
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Shows every board in an import file with its validation status and
+ * conflicts, and lets the user choose what happens to each one
+ */
+class ImportPreviewModal extends Modal {
+	private importer: BoardImporter;
+	private candidates: ImportCandidate[];
+	private onConfirm: (candidates: ImportCandidate[]) => Promise<void>;
+
+	constructor(
+		app: App,
+		importer: BoardImporter,
+		candidates: ImportCandidate[],
+		onConfirm: (candidates: ImportCandidate[]) => Promise<void>
+	) {
+		super(app);
+		this.importer = importer;
+		this.candidates = candidates;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('crystal-import-preview-modal');
+		contentEl.createEl('h2', { text: 'Import Boards' });
+
+		const invalidCount = this.candidates.filter(candidate => candidate.errors.length > 0).length;
+		contentEl.createEl('p', {
+			text: `${this.candidates.length} board(s) found` +
+				(invalidCount > 0 ? `, ${invalidCount} with errors that will be skipped.` : '.'),
+			cls: 'setting-item-description'
+		});
+
+		const listEl = contentEl.createEl('div', { cls: 'crystal-import-list' });
+		this.candidates.forEach(candidate => this.renderCandidate(listEl, candidate));
+
+		const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+		
+		const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelBtn.onclick = () => this.close();
+		
+		const importBtn = buttonContainer.createEl('button', {
+			text: 'Import',
+			cls: 'mod-cta'
+		});
+		importBtn.onclick = async () => {
+			importBtn.disabled = true;
+			await this.onConfirm(this.candidates);
+			this.close();
+		};
+	}
+
+	private renderCandidate(container: HTMLElement, candidate: ImportCandidate): void {
+		const name = typeof candidate.board?.name === 'string' && candidate.board.name
+			? candidate.board.name
+			: '(unnamed board)';
+		const itemEl = container.createEl('div', { cls: 'crystal-import-item' });
+		const setting = new Setting(itemEl).setName(name);
+
+		if (candidate.errors.length > 0) {
+			itemEl.addClass('crystal-import-item-invalid');
+			setting.setDesc(`Invalid board: ${candidate.errors.length} problem(s)`);
+			const errorList = itemEl.createEl('ul', { cls: 'crystal-import-errors' });
+			// Keep the modal readable for badly broken files
+			candidate.errors.slice(0, 5).forEach(error => errorList.createEl('li', { text: error }));
+			if (candidate.errors.length > 5) {
+				errorList.createEl('li', { text: `…and ${candidate.errors.length - 5} more` });
+			}
+			return;
+		}
+
+		const cardCount = candidate.board.columns.reduce((sum, col) => sum + col.cards.length, 0);
+		const details = [`${candidate.board.columns.length} columns, ${cardCount} cards`];
+		const target = this.importer.getConflictTarget(candidate);
+
+		if (target) {
+			itemEl.addClass('crystal-import-item-conflict');
+			if (candidate.nameConflict) {
+				details.push(`a board named "${candidate.nameConflict.name}" already exists`);
+			}
+			if (candidate.idConflict && candidate.idConflict !== candidate.nameConflict) {
+				details.push(`its ID is used by "${candidate.idConflict.name}"`);
+			}
+		}
+		setting.setDesc(details.join(' • '));
+
+		setting.addDropdown(dropdown => {
+			if (target) {
+				dropdown.addOption('merge', `Merge into "${target.name}"`);
+				dropdown.addOption('replace', `Replace "${target.name}"`);
+			} else {
+				dropdown.addOption('add', 'Import');
+			}
+			dropdown.addOption('skip', 'Skip');
+			dropdown.setValue(candidate.action)
+				.onChange((value) => {
+					candidate.action = value as ImportAction;
+				});
+		});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Lists every task in the sources with the board, column and routing rule it would get
+ */
+class RoutingPreviewModal extends Modal {
+	private previews: RoutingPreview[];
+
+	constructor(app: App, previews: RoutingPreview[]) {
+		super(app);
+		this.previews = previews;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Routing Preview' });
+
+		if (this.previews.length === 0) {
+			contentEl.createEl('p', { text: 'No tasks found in the task sources.' });
+			return;
+		}
+
+		const table = contentEl.createEl('table', { cls: 'crystal-routing-preview' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Task', 'Board', 'Column', 'Rule'].forEach(heading => headerRow.createEl('th', { text: heading }));
+
+		const body = table.createEl('tbody');
+		for (const preview of this.previews) {
+			const row = body.createEl('tr');
+			row.createEl('td', { text: preview.task.cleanText || preview.task.text });
+			if (preview.boardName === null) {
+				row.addClass('crystal-routing-preview-skipped');
+				row.createEl('td', { text: 'Not extracted (no hashtags or rule)', attr: { colspan: '3' } });
+				continue;
+			}
+			row.createEl('td', { text: preview.boardName });
+			row.createEl('td', { text: preview.columnName });
+			row.createEl('td', { text: preview.ruleName !== undefined ? (preview.ruleName || '(unnamed rule)') : 'Tag mapping' });
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Edit a card template stored in the settings
+ */
+class CardTemplateModal extends Modal {
+	private template: CardTemplate;
+	private onSubmit: (template: CardTemplate) => Promise<void>;
+
+	constructor(app: App, template: CardTemplate, onSubmit: (template: CardTemplate) => Promise<void>) {
+		super(app);
+		// Edit a copy so cancelling leaves the saved template alone
+		this.template = JSON.parse(JSON.stringify(template));
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('crystal-card-template-modal');
+		contentEl.createEl('h2', { text: this.template.name ? 'Edit Card Template' : 'New Card Template' });
+
+		new Setting(contentEl)
+			.setName('Name')
+			.addText(text => {
+				text.setPlaceholder('Bug report')
+					.setValue(this.template.name)
+					.onChange(value => {
+						this.template.name = value;
+					});
+				text.inputEl.focus();
+			});
+
+		new Setting(contentEl)
+			.setName('Title')
+			.setDesc('Title of new cards, e.g. "Bug: " or "Meeting {{date}}"')
+			.addText(text => text
+				.setValue(this.template.title)
+				.onChange(value => {
+					this.template.title = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Description')
+			.addTextArea(textArea => textArea
+				.setValue(this.template.description)
+				.onChange(value => {
+					this.template.description = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Tags')
+			.setDesc('Comma separated')
+			.addText(text => text
+				.setPlaceholder('bug, triage')
+				.setValue(this.template.tags.join(', '))
+				.onChange(value => {
+					this.template.tags = value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag);
+				}));
+
+		new Setting(contentEl)
+			.setName('Todos')
+			.setDesc('One per line')
+			.addTextArea(textArea => textArea
+				.setPlaceholder('Reproduce\nFind the cause\nFix and test')
+				.setValue(this.template.todos.join('\n'))
+				.onChange(value => {
+					this.template.todos = value.split('\n').map(line => line.trim()).filter(line => line);
+				}));
+
+		new Setting(contentEl)
+			.setName('Research Links')
+			.setDesc('One per line, as a URL or "Title | URL"')
+			.addTextArea(textArea => textArea
+				.setPlaceholder('Docs | https://example.com/docs')
+				.setValue(this.template.researchUrls
+					.map(link => link.title && link.title !== link.url ? `${link.title} | ${link.url}` : link.url)
+					.join('\n'))
+				.onChange(value => {
+					this.template.researchUrls = value.split('\n')
+						.map(line => line.trim())
+						.filter(line => line)
+						.map(line => {
+							const separator = line.lastIndexOf('|');
+							if (separator === -1) return { title: line, url: line };
+							const url = line.slice(separator + 1).trim();
+							return { title: line.slice(0, separator).trim() || url, url };
+						});
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Save Template')
+				.setCta()
+				.onClick(async () => {
+					if (!this.template.name.trim()) {
+						new Notice('Give the template a name');
+						return;
+					}
+					this.template.name = this.template.name.trim();
+					await this.onSubmit(this.template);
+					this.close();
+				}));
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
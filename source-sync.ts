@@ -0,0 +1,310 @@
+import { App, TFile } from 'obsidian';
+import { Board, Card, CardSource, Column, ExtractedTask } from './types';
+import CrystalBoardsPlugin from './main';
+
+const BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+const TASK_LINE_PATTERN = /^(\s*[•\-\*\+]\s+)(?:\[([^\]])\]\s+)?(.*)$/;
+
+export interface SourceLine {
+	prefix: string; // Indentation and bullet
+	checked: boolean | null; // null when the line has no checkbox
+	text: string; // Text without checkbox and block ID
+	blockId?: string;
+}
+
+/**
+ * Split a bullet line into its parts. Returns null for lines that are not bullets.
+ */
+export function parseSourceLine(line: string): SourceLine | null {
+	const match = line.match(TASK_LINE_PATTERN);
+	if (!match) return null;
+
+	let text = match[3];
+	const blockMatch = text.match(BLOCK_ID_PATTERN);
+	if (blockMatch) {
+		text = text.substring(0, blockMatch.index);
+	}
+
+	return {
+		prefix: match[1],
+		checked: match[2] === undefined ? null : match[2].toLowerCase() === 'x',
+		text: text.trim(),
+		blockId: blockMatch?.[1]
+	};
+}
+
+/**
+ * Find the current line of a card's source: by block ID first, then by text,
+ * preferring the match closest to where the line was last seen. Returns -1 if gone.
+ */
+export function findSourceLine(lines: string[], source: CardSource): number {
+	if (source.blockId) {
+		const index = lines.findIndex(line => parseSourceLine(line)?.blockId === source.blockId);
+		if (index !== -1) return index;
+	}
+
+	let bestIndex = -1;
+	lines.forEach((line, index) => {
+		if (parseSourceLine(line)?.text !== source.text) return;
+		if (bestIndex === -1 || Math.abs(index - source.line) < Math.abs(bestIndex - source.line)) {
+			bestIndex = index;
+		}
+	});
+	return bestIndex;
+}
+
+/**
+ * Tick or untick the checkbox of a bullet line, turning plain bullets into checkboxes
+ */
+export function setLineChecked(line: string, checked: boolean): string {
+	const match = line.match(TASK_LINE_PATTERN);
+	if (!match) return line;
+	return `${match[1]}[${checked ? 'x' : ' '}] ${match[3]}`;
+}
+
+/**
+ * Keeps extracted cards and the checkboxes they came from in step.
+ *
+ * Moving a card into the done column ticks its source line and moving it out
+ * unticks it; ticking or unticking the line moves the card. Lines are found by
+ * block ID, so edits and reordering in the source note don't break the link.
+ */
+export class SourceSyncManager {
+	private app: App;
+	private plugin: CrystalBoardsPlugin;
+	// Card ID → checkbox state last read from or written to the source
+	private syncedState = new Map<string, boolean>();
+	// Serializes sync work so card moves and file writes never interleave
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(app: App, plugin: CrystalBoardsPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+		this.plugin.dataManager.onSave(() => {
+			if (this.isEnabled()) {
+				this.enqueue(() => this.syncToSources());
+			}
+		});
+	}
+
+	isEnabled(): boolean {
+		return !!this.plugin.settings.syncSourceCheckboxes;
+	}
+
+	/**
+	 * Pick up changes made to source notes while the plugin was not running
+	 */
+	async initialize(): Promise<void> {
+		if (!this.isEnabled()) return;
+
+		// Start from the board side: a checkbox that disagrees with its card's column was
+		// changed while the plugin was not running, and moving a card later gets written back
+		const syncedCards = this.getSyncedCards();
+		for (const { column, card } of syncedCards) {
+			this.syncedState.set(card.id, this.isDoneColumn(column));
+		}
+
+		const paths = new Set(syncedCards.map(({ card }) => card.source!.path));
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.handleFileModify(file);
+			}
+		}
+	}
+
+	/**
+	 * Give every task a block ID and write new IDs into the source note, so the
+	 * cards created from them can find their line again after edits
+	 */
+	async attachBlockIds(tasks: ExtractedTask[]): Promise<void> {
+		if (!this.isEnabled()) return;
+
+		const tasksByPath = new Map<string, ExtractedTask[]>();
+		for (const task of tasks) {
+			if (!task.sourcePath) continue;
+			const parsed = parseSourceLine(task.originalLine);
+			task.blockId = parsed?.blockId || this.generateBlockId();
+			if (!parsed?.blockId) {
+				if (!tasksByPath.has(task.sourcePath)) {
+					tasksByPath.set(task.sourcePath, []);
+				}
+				tasksByPath.get(task.sourcePath)!.push(task);
+			}
+		}
+
+		for (const [path, pathTasks] of tasksByPath) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+
+			await this.app.vault.process(file, (content) => {
+				const lines = content.split('\n');
+				for (const task of pathTasks) {
+					const index = findSourceLine(lines, {
+						path,
+						line: task.lineNumber - 1,
+						text: parseSourceLine(task.originalLine)?.text || ''
+					});
+					if (index !== -1) {
+						lines[index] = `${lines[index].trimEnd()} ^${task.blockId}`;
+					}
+				}
+				return lines.join('\n');
+			});
+		}
+	}
+
+	/**
+	 * Build the source link for a card created from a task, remembering the task's
+	 * checkbox as the card's synced state
+	 */
+	createCardSource(task: ExtractedTask, cardId: string): CardSource | undefined {
+		if (!this.isEnabled() || !task.sourcePath || !task.blockId) return undefined;
+
+		this.syncedState.set(cardId, parseSourceLine(task.originalLine)?.checked ?? false);
+		return {
+			path: task.sourcePath,
+			blockId: task.blockId,
+			line: task.lineNumber - 1,
+			text: parseSourceLine(task.originalLine)?.text || task.text
+		};
+	}
+
+	/**
+	 * Move cards whose source checkbox was ticked or unticked in the given file
+	 */
+	async handleFileModify(file: TFile): Promise<void> {
+		if (!this.isEnabled()) return;
+		if (!this.getSyncedCards().some(({ card }) => card.source!.path === file.path)) return;
+
+		// Checkbox edits in the note are not undoable from the board
+		await this.enqueue(() => this.plugin.dataManager.history.runUntracked(() => this.syncFromSource(file)));
+	}
+
+	/**
+	 * Keep card sources pointing at a renamed note
+	 */
+	async handleRename(file: TFile, oldPath: string): Promise<void> {
+		if (!this.getSyncedCards().some(({ card }) => card.source!.path === oldPath)) return;
+
+		await this.plugin.dataManager.history.runUntracked(async () => {
+			for (const { card } of this.getSyncedCards()) {
+				if (card.source!.path === oldPath) {
+					card.source!.path = file.path;
+				}
+			}
+			await this.plugin.dataManager.saveData();
+		});
+	}
+
+	private async syncFromSource(file: TFile): Promise<void> {
+		const lines = (await this.app.vault.read(file)).split('\n');
+		let moved = false;
+
+		for (const { board, column, card } of this.getSyncedCards()) {
+			if (card.source!.path !== file.path) continue;
+
+			const index = findSourceLine(lines, card.source!);
+			const parsed = index === -1 ? null : parseSourceLine(lines[index]);
+			if (!parsed || parsed.checked === null) continue;
+
+			// Only react when the checkbox itself changed; card-side changes are written by syncToSources
+			const checked = parsed.checked;
+			const inDone = this.isDoneColumn(column);
+			if (checked === (this.syncedState.get(card.id) ?? inDone)) continue;
+
+			// Record the state before moving so the resulting save doesn't write it back
+			this.syncedState.set(card.id, checked);
+			if (checked === inDone) continue;
+
+			const target = checked ? this.findDoneColumn(board) : this.findOpenColumn(board);
+			if (target && target.id !== column.id) {
+				await this.plugin.dataManager.moveCardBetweenColumns(
+					board.id, card.id, column.id, target.id, target.cards.length
+				);
+				moved = true;
+			}
+		}
+
+		if (moved) {
+			await this.plugin.refreshBoardViews();
+		}
+	}
+
+	private async syncToSources(): Promise<void> {
+		const updatesByPath = new Map<string, { source: CardSource; checked: boolean }[]>();
+
+		for (const { column, card } of this.getSyncedCards()) {
+			const inDone = this.isDoneColumn(column);
+			const lastState = this.syncedState.get(card.id);
+			this.syncedState.set(card.id, inDone);
+			if (lastState === undefined || lastState === inDone) continue;
+
+			const path = card.source!.path;
+			if (!updatesByPath.has(path)) {
+				updatesByPath.set(path, []);
+			}
+			updatesByPath.get(path)!.push({ source: card.source!, checked: inDone });
+		}
+
+		for (const [path, updates] of updatesByPath) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+
+			await this.app.vault.process(file, (content) => {
+				const lines = content.split('\n');
+				for (const { source, checked } of updates) {
+					const index = findSourceLine(lines, source);
+					if (index !== -1) {
+						lines[index] = setLineChecked(lines[index], checked);
+					}
+				}
+				return lines.join('\n');
+			});
+		}
+	}
+
+	private getSyncedCards(): { board: Board; column: Column; card: Card }[] {
+		const result: { board: Board; column: Column; card: Card }[] = [];
+		for (const board of this.plugin.dataManager.getBoards()) {
+			for (const column of board.columns) {
+				for (const card of column.cards) {
+					if (card.source) {
+						result.push({ board, column, card });
+					}
+				}
+			}
+		}
+		return result;
+	}
+
+	private isDoneColumn(column: Column): boolean {
+		const doneName = (this.plugin.settings.syncDoneColumnName || 'Done').trim().toLowerCase();
+		return column.name.trim().toLowerCase() === doneName;
+	}
+
+	private findDoneColumn(board: Board): Column | undefined {
+		return board.columns.find(column => this.isDoneColumn(column));
+	}
+
+	/**
+	 * Column an unticked card goes back to: the extraction column, or the first open column
+	 */
+	private findOpenColumn(board: Board): Column | undefined {
+		const extractionName = (this.plugin.settings.extractionColumnName || 'To Do').toLowerCase();
+		const sorted = [...board.columns].sort((a, b) => a.position - b.position);
+		return sorted.find(column => column.name.toLowerCase() === extractionName)
+			|| sorted.find(column => !this.isDoneColumn(column));
+	}
+
+	private enqueue(task: () => Promise<void>): Promise<void> {
+		this.queue = this.queue.then(task).catch(error => {
+			console.error('Error syncing cards with source notes:', error);
+		});
+		return this.queue;
+	}
+
+	private generateBlockId(): string {
+		return `cb-${Math.random().toString(36).substr(2, 6)}`;
+	}
+}
@@ -0,0 +1,90 @@
+import { Board, Card, TaskPriority } from './types';
+
+export interface Swimlane {
+	key: string; // Tag, priority or lane name; empty for cards that fit no lane
+	name: string;
+}
+
+const PRIORITY_LANES: TaskPriority[] = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+/**
+ * Lanes of a board in display order, ending with the lane for cards that fit none.
+ * Returns an empty list when the board isn't grouped.
+ */
+export function getSwimlanes(board: Board): Swimlane[] {
+	const settings = board.swimlanes;
+	if (!settings || settings.groupBy === 'none') return [];
+
+	switch (settings.groupBy) {
+		case 'tag': {
+			const tags = getLaneTags(board);
+			return [...tags.map(tag => ({ key: tag, name: `#${tag}` })), { key: '', name: 'No tag' }];
+		}
+		case 'priority':
+			return [
+				...PRIORITY_LANES.map(priority => ({ key: priority, name: priority.charAt(0).toUpperCase() + priority.slice(1) })),
+				{ key: '', name: 'No priority' }
+			];
+		case 'lane': {
+			const lanes = [...(settings.lanes || [])];
+			allCards(board).forEach(card => {
+				if (card.lane && !lanes.includes(card.lane)) lanes.push(card.lane);
+			});
+			return [...lanes.map(lane => ({ key: lane, name: lane })), { key: '', name: 'No lane' }];
+		}
+		default:
+			return [];
+	}
+}
+
+/**
+ * Key of the lane a card is shown in
+ */
+export function getCardLaneKey(board: Board, card: Card): string {
+	switch (board.swimlanes?.groupBy) {
+		case 'tag':
+			// The first lane tag the card has, in lane order
+			return getLaneTags(board).find(tag => card.tags.includes(tag)) || '';
+		case 'priority':
+			return card.priority || '';
+		case 'lane':
+			return card.lane || '';
+		default:
+			return '';
+	}
+}
+
+/**
+ * Copy of the card changed so it belongs to the given lane: lane tags are swapped,
+ * or the priority or lane field is set
+ */
+export function assignCardToLane(board: Board, card: Card, laneKey: string): Card {
+	switch (board.swimlanes?.groupBy) {
+		case 'tag': {
+			// Without configured lane tags every tag is a lane, so only the one placing the card goes
+			const configured = board.swimlanes.tags || [];
+			const currentKey = getCardLaneKey(board, card);
+			const tags = card.tags.filter(tag => configured.length > 0 ? !configured.includes(tag) : tag !== currentKey);
+			return { ...card, tags: laneKey && !tags.includes(laneKey) ? [...tags, laneKey] : tags };
+		}
+		case 'priority':
+			return { ...card, priority: (laneKey as TaskPriority) || undefined };
+		case 'lane':
+			return { ...card, lane: laneKey || undefined };
+		default:
+			return card;
+	}
+}
+
+function getLaneTags(board: Board): string[] {
+	const configured = board.swimlanes?.tags || [];
+	if (configured.length > 0) return configured;
+
+	const tags = new Set<string>();
+	allCards(board).forEach(card => card.tags.forEach(tag => tags.add(tag)));
+	return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+function allCards(board: Board): Card[] {
+	return board.columns.flatMap(column => column.cards);
+}
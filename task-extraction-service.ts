@@ -1,4 +1,4 @@
-import { App, Notice } from 'obsidian';
+import { App, Modal, Notice, TFile } from 'obsidian';
 import { TaskExtractor } from './task-extractor';
 import { ExtractedTask, Board } from './types';
 import CrystalBoardsPlugin from './main';
@@ -6,11 +6,32 @@ import CrystalBoardsPlugin from './main';
 export interface ExtractionResult {
 	success: boolean;
 	tasksExtracted: number;
+	tasksSkipped: number; // Already on the board and unchanged, or archived
+	tasksUpdated: number; // Already on the board and updated in place
+	tasksRemovedFromSource: number; // Source lines removed after extraction; undo does not restore them
 	boardsCreated: string[];
 	boardsUpdated: string[];
 	errors: string[];
 }
 
+export interface RoutingPreview {
+	task: ExtractedTask; // As routed, with any rule's tags, column and prefix applied
+	boardName: string | null; // Null when the task would not be extracted
+	columnName: string;
+	ruleName?: string;
+}
+
+export interface ExtractionPreview {
+	task: ExtractedTask; // As parsed from the source
+	routes: {
+		boardName: string;
+		columnName: string;
+		boardExists: boolean; // False when extraction will create the board
+		alreadyExtracted: boolean; // A card for this task is already on the board
+		ruleName?: string;
+	}[];
+}
+
 export class TaskExtractionService {
 	private app: App;
 	private plugin: CrystalBoardsPlugin;
@@ -23,12 +44,16 @@ export class TaskExtractionService {
 	}
 
 	/**
-	 * Main extraction method - orchestrates the entire process
+	 * Main extraction method - orchestrates the entire process.
+	 * Pass tasks confirmed in the preview to extract only those instead of reading the sources.
 	 */
-	async extractTasks(): Promise<ExtractionResult> {
+	async extractTasks(selectedTasks?: ExtractedTask[]): Promise<ExtractionResult> {
 		const result: ExtractionResult = {
 			success: false,
 			tasksExtracted: 0,
+			tasksSkipped: 0,
+			tasksUpdated: 0,
+			tasksRemovedFromSource: 0,
 			boardsCreated: [],
 			boardsUpdated: [],
 			errors: []
@@ -42,39 +67,62 @@ export class TaskExtractionService {
 			}
 
 			// Step 2: Extract tasks from source
-			const allTasks = await this.extractor.extractTasksFromSource();
+			const allTasks = selectedTasks || await this.extractor.extractTasksFromSource();
 			
-			// Filter to only process tasks with hashtags for extraction (not counting)
-			const extractedTasks = allTasks.filter(task => task.hasHashtags);
+			// Filter to only process tasks with hashtags or a matching routing rule (not counting)
+			const extractedTasks = allTasks.filter(task => this.isExtractable(task));
 			
 			if (extractedTasks.length === 0) {
 				result.success = true;
-				result.errors.push('No tasks with hashtags found in source note');
+				result.errors.push('No tasks with hashtags or matching routing rules found in source notes');
 				return result;
 			}
 
-			// Step 3: Categorize tasks by tags/boards
-			const categorizedTasks = this.extractor.categorizeTasks(extractedTasks);
-
-			// Step 4: Process each category and create/update boards
-			for (const [boardName, tasks] of categorizedTasks.entries()) {
+			// Link tasks to their source lines so cards can sync their checkbox
+			if (!this.plugin.settings.removeExtractedTasks) {
 				try {
-					await this.processBoardTasks(boardName, tasks, result);
+					await this.plugin.sourceSync.attachBlockIds(extractedTasks);
 				} catch (error) {
-					result.errors.push(`Error processing board "${boardName}": ${error.message}`);
+					result.errors.push(`Error linking tasks to source: ${error.message}`);
 				}
 			}
 
-			// Step 5: Remove extracted tasks from source (if enabled)
+			// Step 3: Categorize tasks by tags/boards
+			const categorizedTasks = this.extractor.categorizeTasks(extractedTasks);
+
+			// Step 4: Process each category and create/update boards (undone as one step)
+			const handledRoutes = new Map<string, number>();
+			await this.plugin.dataManager.history.transaction('Extract tasks', async () => {
+				for (const [boardName, tasks] of categorizedTasks.entries()) {
+					try {
+						await this.processBoardTasks(boardName, tasks, result, handledRoutes);
+					} catch (error) {
+						result.errors.push(`Error processing board "${boardName}": ${error.message}`);
+					}
+				}
+			});
+
+			// Step 5: Remove extracted tasks from source (if enabled). Undo can't bring the
+			// lines back, so nothing is removed unless every task made it onto its boards.
 			if (this.plugin.settings.removeExtractedTasks) {
-				try {
-					await this.extractor.removeExtractedTasksFromSource(extractedTasks);
-				} catch (error) {
-					result.errors.push(`Error removing tasks from source: ${error.message}`);
+				if (result.errors.length > 0) {
+					result.errors.push('Tasks were left in the source notes because not all of them could be added to boards');
+				} else {
+					const routeCounts = new Map<string, number>();
+					for (const tasks of categorizedTasks.values()) {
+						tasks.forEach(task => routeCounts.set(this.getTaskKey(task), (routeCounts.get(this.getTaskKey(task)) || 0) + 1));
+					}
+					const removableTasks = extractedTasks.filter(task =>
+						(handledRoutes.get(this.getTaskKey(task)) || 0) === (routeCounts.get(this.getTaskKey(task)) || 0));
+					try {
+						await this.extractor.removeExtractedTasksFromSource(removableTasks);
+						result.tasksRemovedFromSource = removableTasks.length;
+					} catch (error) {
+						result.errors.push(`Error removing tasks from source: ${error.message}`);
+					}
 				}
 			}
 
-			result.tasksExtracted = extractedTasks.length;
 			result.success = result.errors.length === 0;
 
 		} catch (error) {
@@ -90,7 +138,8 @@ export class TaskExtractionService {
 	private async processBoardTasks(
 		boardName: string, 
 		tasks: ExtractedTask[], 
-		result: ExtractionResult
+		result: ExtractionResult,
+		handledRoutes: Map<string, number>
 	): Promise<void> {
 		// Get or create the board
 		const existingBoards = this.plugin.dataManager.getBoards();
@@ -106,30 +155,111 @@ export class TaskExtractionService {
 			result.boardsUpdated.push(boardName);
 		}
 
-		// Create cards from tasks and add to board
+		// Create cards from tasks and add to board, skipping or updating ones extracted before
+		for (const task of tasks) {
+			const existing = this.extractor.findExistingCard(board.id, task);
+			if (existing) {
+				// Archived cards stay archived
+				if (existing.columnId && await this.extractor.updateCardFromTask(board.id, existing.columnId, existing.card, task)) {
+					result.tasksUpdated++;
+				} else {
+					result.tasksSkipped++;
+				}
+			} else {
+				const card = await this.extractor.createCardFromTask(task);
+				await this.extractor.addCardToBoard(card, board, task.defaultColumn);
+				result.tasksExtracted++;
+			}
+			// The task has a card on this board now
+			handledRoutes.set(this.getTaskKey(task), (handledRoutes.get(this.getTaskKey(task)) || 0) + 1);
+		}
+	}
+
+	/**
+	 * Identifies a task's source line across the copies routing makes of it
+	 */
+	private getTaskKey(task: ExtractedTask): string {
+		return `${task.sourcePath || ''}:${task.lineNumber}`;
+	}
+
+	/**
+	 * Tasks are extracted when they have hashtags or a routing rule picks them up
+	 */
+	private isExtractable(task: ExtractedTask): boolean {
+		return !!task.hasHashtags || this.extractor.router.findMatchingRule(task) !== null;
+	}
+
+	/**
+	 * Where each task in the sources would go, without changing anything
+	 */
+	async previewRouting(): Promise<RoutingPreview[]> {
+		const tasks = await this.extractor.extractTasksFromSource();
+		const defaultColumn = this.plugin.settings.extractionColumnName || 'To Do';
+		const previews: RoutingPreview[] = [];
+
 		for (const task of tasks) {
-			const card = await this.extractor.createCardFromTask(task);
-			await this.extractor.addCardToBoard(card, board);
+			if (!this.isExtractable(task)) {
+				previews.push({ task, boardName: null, columnName: '' });
+				continue;
+			}
+
+			for (const route of this.extractor.routeTask(task)) {
+				previews.push({
+					task: route.task,
+					boardName: route.boardName,
+					columnName: route.task.defaultColumn || defaultColumn,
+					ruleName: route.task.matchedRule
+				});
+			}
 		}
+
+		return previews;
+	}
+
+	/**
+	 * Every extractable task with the boards and columns it would be added to, without changing anything
+	 */
+	async previewExtraction(): Promise<ExtractionPreview[]> {
+		const tasks = (await this.extractor.extractTasksFromSource()).filter(task => this.isExtractable(task));
+		const defaultColumn = this.plugin.settings.extractionColumnName || 'To Do';
+		const boards = this.plugin.dataManager.getBoards();
+
+		return tasks.map(task => ({
+			task,
+			routes: this.extractor.routeTask(task).map(route => {
+				const board = boards.find(b => b.name.toLowerCase() === route.boardName.toLowerCase());
+				return {
+					boardName: route.boardName,
+					columnName: route.task.defaultColumn || defaultColumn,
+					boardExists: !!board,
+					alreadyExtracted: !!board && this.extractor.findExistingCard(board.id, route.task) !== null,
+					ruleName: route.task.matchedRule
+				};
+			})
+		}));
 	}
 
 	/**
 	 * Validate extraction settings
 	 */
 	private validateSettings(): boolean {
-		const settings = this.plugin.settings;
-		
-		if (!settings.taskSourcePath) {
-			return false;
-		}
+		// At least one source must cover an existing note
+		return this.extractor.sources.getSources()
+			.some(source => this.extractor.sources.resolveFiles(source).length > 0);
+	}
 
-		// Check if source file exists
-		const sourceFile = this.app.vault.getAbstractFileByPath(settings.taskSourcePath);
-		if (!sourceFile) {
-			return false;
-		}
+	/**
+	 * Whether any task source is configured
+	 */
+	hasSources(): boolean {
+		return this.extractor.sources.getSources().length > 0;
+	}
 
-		return true;
+	/**
+	 * Whether a note is covered by one of the task sources
+	 */
+	isSourceFile(file: TFile): boolean {
+		return this.extractor.sources.findSourceForFile(file) !== null;
 	}
 
 	/**
@@ -138,6 +268,18 @@ export class TaskExtractionService {
 	showExtractionResult(result: ExtractionResult): void {
 		if (result.success) {
 			const messages = [`✅ Successfully extracted ${result.tasksExtracted} tasks`];
+
+			if (result.tasksUpdated > 0) {
+				messages.push(`✏️ Updated ${result.tasksUpdated} existing cards`);
+			}
+
+			if (result.tasksSkipped > 0) {
+				messages.push(`⏭️ Skipped ${result.tasksSkipped} already extracted tasks`);
+			}
+
+			if (result.tasksRemovedFromSource > 0) {
+				messages.push(`🧹 Removed ${result.tasksRemovedFromSource} tasks from the source notes (undo does not put them back)`);
+			}
 			
 			if (result.boardsCreated.length > 0) {
 				messages.push(`📋 Created boards: ${result.boardsCreated.join(', ')}`);
@@ -155,14 +297,27 @@ export class TaskExtractionService {
 	}
 
 	/**
-	 * Quick extraction for testing/development
+	 * Preview the tasks in the sources and extract the ones the user confirms
 	 */
 	async quickExtract(): Promise<void> {
-		const result = await this.extractTasks();
-		this.showExtractionResult(result);
-		
-		// Refresh dashboard if it's open
-		await this.refreshDashboard();
+		if (!this.validateSettings()) {
+			new Notice('❌ Extraction failed:\nTask extraction settings are not properly configured', 7000);
+			return;
+		}
+
+		const previews = await this.previewExtraction();
+		if (previews.length === 0) {
+			new Notice('No tasks with hashtags or matching routing rules found in source notes');
+			return;
+		}
+
+		new ExtractionPreviewModal(this.app, previews, !!this.plugin.settings.removeExtractedTasks, async (tasks) => {
+			const result = await this.extractTasks(tasks);
+			this.showExtractionResult(result);
+
+			// Refresh dashboard if it's open
+			await this.refreshDashboard();
+		}).open();
 	}
 
 	/**
@@ -205,40 +360,165 @@ export class TaskExtractionService {
 	 */
 	async getExtractionStats(): Promise<{
 		sourceFileExists: boolean;
+		sourceFileCount: number;
 		tasksInSource: number;
 		configuraitonValid: boolean;
 		lastExtraction?: Date;
 	}> {
 		const stats = {
 			sourceFileExists: false,
+			sourceFileCount: 0,
 			tasksInSource: 0,
 			configuraitonValid: this.validateSettings(),
 			lastExtraction: undefined as Date | undefined
 		};
 
 		try {
-			if (this.plugin.settings.taskSourcePath) {
-				
-				const sourceFile = this.app.vault.getAbstractFileByPath(this.plugin.settings.taskSourcePath);
-				
-				if (sourceFile) {
-					stats.sourceFileExists = true;
-					const content = await this.app.vault.read(sourceFile as any);
-					
-					const tasks = this.extractor.parseTasksFromContent(content);
-					const tasksWithHashtags = tasks.filter(task => task.hasHashtags);
-					
-					stats.tasksInSource = tasks.length; // Count all tasks
-				} else {
-					
+			const seenPaths = new Set<string>();
+			for (const source of this.extractor.sources.getSources()) {
+				for (const file of this.extractor.sources.resolveFiles(source)) {
+					if (seenPaths.has(file.path)) continue;
+					seenPaths.add(file.path);
+
+					const content = await this.app.vault.read(file);
+					stats.tasksInSource += this.extractor.parseTasksFromContent(content).length; // Count all tasks
 				}
-			} else {
-				
 			}
+			stats.sourceFileCount = seenPaths.size;
+			stats.sourceFileExists = seenPaths.size > 0;
 		} catch (error) {
 			console.error('Error getting extraction stats:', error);
 		}
 
 		return stats;
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Dry run of an extraction: shows where each task will go and lets the user
+ * pick which tasks are imported (and removed from the source)
+ */
+class ExtractionPreviewModal extends Modal {
+	private previews: ExtractionPreview[];
+	private removesFromSource: boolean;
+	private onConfirm: (tasks: ExtractedTask[]) => Promise<void>;
+	private selected: Set<ExtractedTask>;
+	private checkboxes: HTMLInputElement[] = [];
+	private confirmBtn: HTMLButtonElement;
+
+	constructor(
+		app: App,
+		previews: ExtractionPreview[],
+		removesFromSource: boolean,
+		onConfirm: (tasks: ExtractedTask[]) => Promise<void>
+	) {
+		super(app);
+		this.previews = previews;
+		this.removesFromSource = removesFromSource;
+		this.onConfirm = onConfirm;
+		this.selected = new Set(previews.map(preview => preview.task));
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('crystal-extraction-preview-modal');
+		contentEl.createEl('h2', { text: 'Extract Tasks' });
+
+		const newBoards = new Set<string>();
+		this.previews.forEach(preview => preview.routes
+			.filter(route => !route.boardExists)
+			.forEach(route => newBoards.add(route.boardName.toLowerCase())));
+
+		contentEl.createEl('p', {
+			text: `${this.previews.length} task(s) found` +
+				(newBoards.size > 0 ? `, ${newBoards.size} new board(s) will be created.` : '.') +
+				(this.removesFromSource ? ' Extracted tasks are removed from their source note.' : ''),
+			cls: 'setting-item-description'
+		});
+
+		const selectAllLabel = contentEl.createEl('label', { cls: 'crystal-extraction-select-all' });
+		const selectAll = selectAllLabel.createEl('input', { type: 'checkbox' });
+		selectAll.checked = true;
+		selectAllLabel.appendText(' Select all');
+		selectAll.onchange = () => {
+			this.previews.forEach((preview, index) => {
+				this.checkboxes[index].checked = selectAll.checked;
+				this.setSelected(preview.task, selectAll.checked);
+			});
+		};
+
+		const listEl = contentEl.createEl('div', { cls: 'crystal-extraction-list' });
+		this.previews.forEach(preview => this.renderPreview(listEl, preview));
+
+		const buttonContainer = contentEl.createEl('div', { cls: 'modal-button-container' });
+
+		const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelBtn.onclick = () => this.close();
+
+		this.confirmBtn = buttonContainer.createEl('button', { cls: 'mod-cta' });
+		this.confirmBtn.onclick = async () => {
+			// Keep the source order
+			const tasks = this.previews.map(preview => preview.task).filter(task => this.selected.has(task));
+			this.confirmBtn.disabled = true;
+			this.close();
+			await this.onConfirm(tasks);
+		};
+		this.updateConfirmButton();
+	}
+
+	private renderPreview(container: HTMLElement, preview: ExtractionPreview): void {
+		const { task } = preview;
+		const itemEl = container.createEl('label', { cls: 'crystal-extraction-item' });
+
+		const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+		checkbox.checked = true;
+		checkbox.onchange = () => this.setSelected(task, checkbox.checked);
+		this.checkboxes.push(checkbox);
+
+		const bodyEl = itemEl.createEl('div', { cls: 'crystal-extraction-item-body' });
+		bodyEl.createEl('div', { text: task.cleanText || task.text, cls: 'crystal-extraction-item-title' });
+
+		for (const route of preview.routes) {
+			const routeEl = bodyEl.createEl('div', { cls: 'crystal-extraction-route' });
+			routeEl.createEl('span', { text: `→ ${route.boardName} / ${route.columnName}` });
+			if (!route.boardExists) {
+				routeEl.createEl('span', { text: 'new board', cls: 'crystal-extraction-badge crystal-extraction-badge-new' });
+			}
+			if (route.alreadyExtracted) {
+				routeEl.createEl('span', { text: 'already extracted', cls: 'crystal-extraction-badge' });
+			}
+			if (route.ruleName !== undefined) {
+				routeEl.createEl('span', { text: `rule: ${route.ruleName || '(unnamed)'}`, cls: 'crystal-extraction-badge' });
+			}
+		}
+
+		if (task.tags.length > 0) {
+			const tagsEl = bodyEl.createEl('div', { cls: 'crystal-extraction-tags' });
+			task.tags.forEach(tag => tagsEl.createEl('span', { text: `#${tag}`, cls: 'crystal-extraction-tag' }));
+		}
+
+		if (task.urls.length > 0) {
+			const urlsEl = bodyEl.createEl('div', { cls: 'crystal-extraction-urls' });
+			task.urls.forEach(({ url }) => urlsEl.createEl('div', { text: `🔗 ${url}` }));
+		}
+	}
+
+	private setSelected(task: ExtractedTask, selected: boolean): void {
+		if (selected) {
+			this.selected.add(task);
+		} else {
+			this.selected.delete(task);
+		}
+		this.updateConfirmButton();
+	}
+
+	private updateConfirmButton(): void {
+		this.confirmBtn.setText(`Extract ${this.selected.size} task(s)`);
+		this.confirmBtn.disabled = this.selected.size === 0;
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,48 +1,90 @@
-import { App, TFile } from 'obsidian';
-import { ExtractedTask, Board, Card, Column, PluginSettings } from './types';
+import { App, TFile, TFolder, moment } from 'obsidian';
+import { ExtractedTask, Board, Card, Column, PluginSettings, TaskMetadata, TodoItem } from './types';
 import { LinkManager } from './link-manager';
+import { TaskSourceResolver } from './task-sources';
+import { TaskRouter } from './task-router';
+import { findSourceLine, parseSourceLine } from './source-sync';
+import { parseTaskMetadata } from './task-metadata';
 import CrystalBoardsPlugin from './main';
 
 export class TaskExtractor {
 	private app: App;
 	private plugin: CrystalBoardsPlugin;
 	private linkManager: LinkManager;
+	sources: TaskSourceResolver;
+	router: TaskRouter;
 
 	constructor(app: App, plugin: CrystalBoardsPlugin) {
 		this.app = app;
 		this.plugin = plugin;
 		this.linkManager = new LinkManager(app);
+		this.sources = new TaskSourceResolver(app, plugin);
+		this.router = new TaskRouter(() => this.plugin.settings.routingRules || []);
 	}
 
 	/**
-	 * Extract tasks from the configured source note
+	 * Extract tasks from every configured source note
 	 */
 	async extractTasksFromSource(): Promise<ExtractedTask[]> {
-		const settings = this.plugin.settings;
+		const sources = this.sources.getSources();
 		
-		if (!settings.taskSourcePath) {
-			throw new Error('No task source path configured. Please set a source note in settings.');
+		if (sources.length === 0) {
+			throw new Error('No task sources configured. Please set a source note in settings.');
 		}
 
-		const sourceFile = this.app.vault.getAbstractFileByPath(settings.taskSourcePath);
-		
-		if (!sourceFile || !(sourceFile instanceof TFile)) {
-			throw new Error(`Source note "${settings.taskSourcePath}" not found.`);
+		const tasks: ExtractedTask[] = [];
+		const seenPaths = new Set<string>();
+
+		for (const source of sources) {
+			const files = this.sources.resolveFiles(source);
+			if (source.type === 'file' && files.length === 0) {
+				console.warn(`Task source note "${source.path}" not found`);
+			}
+
+			for (const file of files) {
+				// A note covered by several sources is read once, with the first source's defaults
+				if (seenPaths.has(file.path)) continue;
+				seenPaths.add(file.path);
+
+				const content = await this.app.vault.read(file);
+				for (const task of this.parseTasksFromContent(content)) {
+					task.sourcePath = file.path;
+					task.defaultBoard = source.defaultBoard || undefined;
+					task.defaultColumn = source.defaultColumn || undefined;
+					tasks.push(task);
+				}
+			}
 		}
 
-		const content = await this.app.vault.read(sourceFile);
-		return this.parseTasksFromContent(content);
+		return tasks;
 	}
 
 	/**
-	 * Parse tasks from markdown content
+	 * Parse tasks from markdown content. Lines indented below a task belong to it:
+	 * checkbox children become subtasks and everything else its description.
 	 */
 	parseTasksFromContent(content: string): ExtractedTask[] {
 		const lines = content.split('\n');
 		const tasks: ExtractedTask[] = [];
+		const extractedHeading = this.getExtractedSectionHeading().toLowerCase();
+		let skipLevel = 0; // Heading level of the "Extracted" section while inside it
 
 		for (let i = 0; i < lines.length; i++) {
 			const line = lines[i].trim();
+
+			// Lines moved into the "Extracted" section are not tasks anymore
+			const headingMatch = line.match(/^(#{1,6})\s+(.*)$/);
+			if (headingMatch) {
+				const level = headingMatch[1].length;
+				if (skipLevel && level <= skipLevel) {
+					skipLevel = 0;
+				}
+				if (headingMatch[2].trim().toLowerCase() === extractedHeading) {
+					skipLevel = level;
+				}
+				continue;
+			}
+			if (skipLevel) continue;
 			
 			// Match bullet points: •, -, *, +
 			const bulletMatch = line.match(/^[•\-\*\+]\s+(.+)$/);
@@ -53,27 +95,89 @@ export class TaskExtractor {
 				// Skip empty tasks
 				if (!taskText) continue;
 
-				// Check if task contains hashtags
-				const hasHashtags = /#[\w-]+/g.test(taskText);
-				
 				// Note: We now count all tasks for accurate counter updates
 				// Smart extraction will still filter for hashtags during processing
 
 				const extractedTask = this.parseTaskLine(taskText, line, i + 1);
-				extractedTask.hasHashtags = hasHashtags; // Add flag to track hashtag presence
+				extractedTask.hasHashtags = extractedTask.tags.length > 0; // Add flag to track hashtag presence
+
+				// Collect the indented lines below the task
+				const taskIndent = this.getIndentWidth(lines[i]);
+				let end = i;
+				for (let j = i + 1; j < lines.length; j++) {
+					if (lines[j].trim() === '') continue;
+					if (this.getIndentWidth(lines[j]) <= taskIndent) break;
+					end = j;
+				}
+				this.parseTaskChildren(extractedTask, lines.slice(i + 1, end + 1));
+				extractedTask.endLineNumber = end + 1;
+
 				tasks.push(extractedTask);
+				i = end; // Children are not tasks of their own
 			}
 		}
 
 		return tasks;
 	}
 
+	/**
+	 * Turn the indented lines below a task into subtasks, description and note links
+	 */
+	private parseTaskChildren(task: ExtractedTask, childLines: string[]): void {
+		const subtasks: { text: string; completed: boolean }[] = [];
+		const descriptionLines: string[] = [];
+
+		for (const childLine of childLines) {
+			const checkboxMatch = childLine.trim().match(/^[•\-\*\+]\s+\[([^\]])\]\s+(.*)$/);
+			if (checkboxMatch) {
+				subtasks.push({
+					text: checkboxMatch[2].trim(),
+					completed: checkboxMatch[1].toLowerCase() === 'x'
+				});
+			} else {
+				descriptionLines.push(childLine);
+			}
+		}
+
+		// Remove the common indentation so the description reads as top-level markdown
+		const indents = descriptionLines
+			.filter(line => line.trim() !== '')
+			.map(line => line.match(/^\s*/)![0].length);
+		const commonIndent = indents.length > 0 ? Math.min(...indents) : 0;
+		const description = descriptionLines
+			.map(line => line.substring(Math.min(commonIndent, line.match(/^\s*/)![0].length)).trimEnd())
+			.join('\n')
+			.trim();
+
+		const noteLinks = [task.text, ...childLines].reduce((links: string[], text) => {
+			for (const match of text.matchAll(/\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g)) {
+				const linkpath = match[1].trim();
+				if (linkpath && !links.includes(linkpath)) {
+					links.push(linkpath);
+				}
+			}
+			return links;
+		}, []);
+
+		task.subtasks = subtasks;
+		task.description = description;
+		task.noteLinks = noteLinks;
+	}
+
+	/**
+	 * Indentation width of a line, counting tabs as four spaces
+	 */
+	private getIndentWidth(line: string): number {
+		const indent = line.match(/^[ \t]*/)![0];
+		return indent.replace(/\t/g, '    ').length;
+	}
+
 	/**
 	 * Parse individual task line and extract tags, URLs, and clean text
 	 */
 	private parseTaskLine(taskText: string, originalLine: string, lineNumber: number): ExtractedTask {
-		// Extract hashtags
-		const tagMatches = taskText.match(/#[\w-]+/g) || [];
+		// Extract hashtags, ignoring headings inside wikilinks
+		const tagMatches = taskText.replace(/\[\[[^\]]*\]\]/g, '').match(/#[\w-]+/g) || [];
 		const tags = tagMatches.map(tag => tag.substring(1)); // Remove # prefix
 
 		// Extract URLs with titles
@@ -100,9 +204,27 @@ export class TaskExtractor {
 			}
 		}
 
+		// Checkbox state and block ID, used to sync the card back to this line
+		const checkboxMatch = taskText.match(/^\[([^\]])\]\s/);
+		const blockIdMatch = taskText.match(/\s\^([A-Za-z0-9-]+)\s*$/);
+
 		// Create clean text by removing tags and URLs
 		let cleanText = taskText;
 		
+		// Remove block ID
+		if (blockIdMatch) {
+			cleanText = cleanText.substring(0, blockIdMatch.index);
+		}
+
+		// Remove Tasks plugin dates, recurrence and priority, keeping them as metadata
+		const { metadata, text: textWithoutMetadata } = parseTaskMetadata(cleanText);
+		cleanText = textWithoutMetadata;
+		
+		// Replace wikilinks with their alias or note name (before tags, so headings aren't read as tags)
+		cleanText = cleanText.replace(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g, (_, target: string, alias?: string) =>
+			(alias || target.replace(/[#^].*$/, '')).trim()
+		);
+		
 		// Remove hashtags
 		cleanText = cleanText.replace(/#[\w-]+/g, '').trim();
 		
@@ -124,7 +246,10 @@ export class TaskExtractor {
 			tags: tags,
 			urls: urls,
 			originalLine: originalLine,
-			lineNumber: lineNumber
+			lineNumber: lineNumber,
+			checked: checkboxMatch ? checkboxMatch[1].toLowerCase() === 'x' : undefined,
+			blockId: blockIdMatch ? blockIdMatch[1] : undefined,
+			metadata: Object.keys(metadata).length > 0 ? metadata : undefined
 		};
 	}
 
@@ -141,35 +266,52 @@ export class TaskExtractor {
 	}
 
 	/**
-	 * Categorize tasks by their tags
+	 * Categorize tasks by the boards they are routed to
 	 */
 	categorizeTasks(tasks: ExtractedTask[]): Map<string, ExtractedTask[]> {
 		const categorized = new Map<string, ExtractedTask[]>();
 		
-		for (const task of tasks) {
-			if (task.tags.length === 0) {
-				// Tasks without tags go to default category
-				const defaultBoard = this.plugin.settings.defaultExtractionBoard || 'Inbox';
-				if (!categorized.has(defaultBoard)) {
-					categorized.set(defaultBoard, []);
-				}
-				categorized.get(defaultBoard)!.push(task);
-			} else {
-				// Tasks with tags - add to each matching board
-				for (const tag of task.tags) {
-					const boardName = this.findBoardNameForTag(tag);
-					
-					if (!categorized.has(boardName)) {
-						categorized.set(boardName, []);
-					}
-					categorized.get(boardName)!.push(task);
+		for (const originalTask of tasks) {
+			for (const { boardName, task } of this.routeTask(originalTask)) {
+				if (!categorized.has(boardName)) {
+					categorized.set(boardName, []);
 				}
+				categorized.get(boardName)!.push(task);
 			}
 		}
 
 		return categorized;
 	}
 
+	/**
+	 * Work out which boards a task goes to. Routing rules come first; a matching rule
+	 * without a board still applies its column, tags and prefix but keeps tag mapping.
+	 */
+	routeTask(originalTask: ExtractedTask): { boardName: string; task: ExtractedTask }[] {
+		const rule = this.router.findMatchingRule(originalTask);
+		const task = rule ? this.router.applyRule(rule, originalTask) : originalTask;
+
+		if (rule && rule.board) {
+			return [{ boardName: rule.board, task }];
+		}
+
+		if (originalTask.tags.length === 0) {
+			// Tasks without tags go to their source's board, or the default category
+			const defaultBoard = task.defaultBoard || this.plugin.settings.defaultExtractionBoard || 'Inbox';
+			return [{ boardName: defaultBoard, task }];
+		}
+
+		// Tasks with tags - add to each matching board (tags added by the rule don't route)
+		const boardNames: string[] = [];
+		for (const tag of originalTask.tags) {
+			const boardName = this.findBoardNameForTag(tag);
+			if (!boardNames.includes(boardName)) {
+				boardNames.push(boardName);
+			}
+		}
+		return boardNames.map(boardName => ({ boardName, task }));
+	}
+
 	/**
 	 * Find the appropriate board name for a given tag
 	 */
@@ -251,30 +393,181 @@ export class TaskExtractor {
 	 * Create a card from an extracted task (with enhanced URL processing)
 	 */
 	async createCardFromTask(task: ExtractedTask): Promise<Card> {
-		const settings = this.plugin.settings;
 		const now = Date.now();
 		
 		// Generate unique ID
 		const cardId = `card-${now}-${Math.random().toString(36).substr(2, 9)}`;
 		
-		// Create title with optional prefix
-		const prefix = settings.extractedTaskPrefix || '';
-		const title = `${prefix}${task.cleanText}`;
+		// Create title with optional prefixes
+		const title = this.getCardTitle(task);
 
 		// Enhance URLs with better metadata and categorization
 		const researchUrls = await this.enhanceTaskUrls(task.urls, now);
 
-		return {
+		const card: Card = {
 			id: cardId,
 			title: title,
-			description: '', // Could be populated from task description if format changes
+			description: task.description || '',
 			tags: task.tags,
-			noteLinks: [], // Could be populated if tasks reference notes
-			todos: [], // Empty for now, could parse sub-tasks later
+			noteLinks: this.resolveNoteLinks(task),
+			todos: this.createTodosFromTask(task, now),
 			researchUrls: researchUrls,
 			created: now,
-			modified: now
+			modified: now,
+			fingerprint: this.getTaskFingerprints(task)[0],
+			...task.metadata
+		};
+
+		// Remember the source line so the card can be synced with its checkbox
+		const source = this.plugin.sourceSync.createCardSource(task, card.id);
+		if (source) {
+			card.source = source;
+		}
+
+		return card;
+	}
+
+	/**
+	 * Card title for a task: the extraction prefix, then any routing rule prefix, then the text
+	 */
+	getCardTitle(task: ExtractedTask): string {
+		return `${this.plugin.settings.extractedTaskPrefix || ''}${task.titlePrefix || ''}${task.cleanText}`;
+	}
+
+	/**
+	 * Resolve the task's [[wikilinks]] to note paths, skipping links to notes that don't exist
+	 */
+	private resolveNoteLinks(task: ExtractedTask): string[] {
+		const paths: string[] = [];
+		for (const linkpath of task.noteLinks || []) {
+			const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, task.sourcePath || '');
+			if (file && !paths.includes(file.path)) {
+				paths.push(file.path);
+			}
+		}
+		return paths;
+	}
+
+	/**
+	 * Create todos from the task's indented checkbox children
+	 */
+	private createTodosFromTask(task: ExtractedTask, timestamp: number): TodoItem[] {
+		return (task.subtasks || []).map(subtask => ({
+			id: `todo-${timestamp}-${Math.random().toString(36).substr(2, 9)}`,
+			text: subtask.text,
+			completed: subtask.completed,
+			created: timestamp
+		}));
+	}
+
+	/**
+	 * Fingerprints identifying a task across extraction runs, most specific first:
+	 * its block ID when it has one, then a hash of its text
+	 */
+	getTaskFingerprints(task: ExtractedTask): string[] {
+		const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+		const strippedText = task.text
+			.replace(/\s\^[A-Za-z0-9-]+\s*$/, '') // Block ID
+			.replace(/^\s*\[[^\]]*\]\s*/, ''); // Checkbox, so ticking a task doesn't change it
+		// Metadata is left out so changing a due date or priority updates the card instead of duplicating it
+		const fingerprints = [`hash:${this.hashText(normalize(parseTaskMetadata(strippedText).text))}`];
+
+		// Cards fingerprinted before metadata was recognized hashed the full text
+		const legacyHash = `hash:${this.hashText(normalize(strippedText))}`;
+		if (!fingerprints.includes(legacyHash)) {
+			fingerprints.push(legacyHash);
+		}
+
+		if (task.blockId) {
+			fingerprints.unshift(`block:${task.blockId}`);
+		}
+		return fingerprints;
+	}
+
+	/**
+	 * Find a card on the board, or in its archive, that was created from the same task.
+	 * Cards without a fingerprint were not extracted and never match.
+	 */
+	findExistingCard(boardId: string, task: ExtractedTask): { card: Card; columnId: string | null } | null {
+		const board = this.plugin.dataManager.getBoardById(boardId);
+		if (!board) return null;
+
+		// Cards extracted before fingerprints existed were given their title as fingerprint
+		const fingerprints = [...this.getTaskFingerprints(task), `title:${this.getCardTitle(task)}`];
+		const matches = (card: Card) => !!card.fingerprint && fingerprints.includes(card.fingerprint);
+
+		for (const column of board.columns) {
+			const card = column.cards.find(matches);
+			if (card) {
+				return { card, columnId: column.id };
+			}
+		}
+
+		const archived = (board.archivedCards || []).find(entry => matches(entry.card));
+		return archived ? { card: archived.card, columnId: null } : null;
+	}
+
+	/**
+	 * Bring an existing card in line with a re-extracted task. Returns true if anything changed.
+	 */
+	async updateCardFromTask(boardId: string, columnId: string, card: Card, task: ExtractedTask): Promise<boolean> {
+		const title = this.getCardTitle(task);
+		const fingerprint = this.getTaskFingerprints(task)[0];
+		const tags = [...card.tags, ...task.tags.filter(tag => !card.tags.includes(tag))];
+		const knownUrls = new Set(card.researchUrls.map(url => url.url));
+		const newUrls = task.urls.filter(url => !knownUrls.has(url.url));
+		const source = card.source || this.plugin.sourceSync.createCardSource(task, card.id);
+		const noteLinks = [...card.noteLinks, ...this.resolveNoteLinks(task).filter(path => !card.noteLinks.includes(path))];
+		// Subtasks are matched on text so todos ticked on the card keep their state
+		const knownTodos = new Set(card.todos.map(todo => todo.text));
+		const newTodos = this.createTodosFromTask(task, Date.now()).filter(todo => !knownTodos.has(todo.text));
+		// Never overwrite a description edited on the card
+		const description = card.description || task.description || '';
+		// Metadata in the source wins, fields it doesn't set keep their card value
+		const metadata: TaskMetadata = task.metadata || {};
+		const metadataChanged = (Object.keys(metadata) as (keyof TaskMetadata)[])
+			.some(key => card[key] !== metadata[key]);
+
+		const changed = card.title !== title ||
+			card.fingerprint !== fingerprint ||
+			tags.length !== card.tags.length ||
+			newUrls.length > 0 ||
+			noteLinks.length !== card.noteLinks.length ||
+			newTodos.length > 0 ||
+			description !== (card.description || '') ||
+			metadataChanged ||
+			source !== card.source;
+		if (!changed) return false;
+
+		const updatedCard: Card = {
+			...card,
+			title,
+			description,
+			fingerprint,
+			tags,
+			noteLinks,
+			todos: [...card.todos, ...newTodos],
+			researchUrls: [...card.researchUrls, ...await this.enhanceTaskUrls(newUrls, Date.now())],
+			...metadata
 		};
+		if (source) {
+			updatedCard.source = source;
+		}
+
+		await this.plugin.dataManager.updateCard(boardId, columnId, updatedCard);
+		return true;
+	}
+
+	/**
+	 * Small non-cryptographic string hash (FNV-1a), as hex
+	 */
+	private hashText(text: string): string {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < text.length; i++) {
+			hash ^= text.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, '0');
 	}
 
 	/**
@@ -292,19 +585,9 @@ export class TaskExtractor {
 			return existingBoard;
 		}
 
-		// Create new board
-		const now = Date.now();
-		const boardId = `board-${now}-${Math.random().toString(36).substr(2, 9)}`;
-		
-		const newBoard: Board = {
-			id: boardId,
-			name: boardName,
-			folderPath: `${this.plugin.settings.kanbanFolderPath}/${boardName}`,
-			position: boards.length,
-			columns: this.createDefaultColumns(),
-			created: now,
-			modified: now
-		};
+		// Create new board from the template chosen for extracted boards
+		const template = this.plugin.boardTemplates.getTemplate(this.plugin.settings.extractionBoardTemplate);
+		const newBoard = this.plugin.boardTemplates.createBoard(template, boardName, boards.length);
 
 		await this.plugin.dataManager.addBoard(newBoard);
 		
@@ -317,30 +600,12 @@ export class TaskExtractor {
 		return newBoard;
 	}
 
-	/**
-	 * Create default columns for a new board
-	 */
-	private createDefaultColumns(): Column[] {
-		const now = Date.now();
-		const colors = ['#E8E8E8', '#E0E8E0', '#E8E0E8', '#E8E8E0', '#E0E8E8'];
-		
-		const defaultColumnNames = ['To Do', 'In Progress', 'Done'];
-		
-		return defaultColumnNames.map((name, index) => ({
-			id: `column-${now}-${index}`,
-			name: name,
-			color: colors[index % colors.length],
-			position: index,
-			cards: []
-		}));
-	}
-
 	/**
 	 * Add card to the appropriate column in a board
 	 */
-	async addCardToBoard(card: Card, board: Board): Promise<void> {
+	async addCardToBoard(card: Card, board: Board, columnName?: string): Promise<void> {
 		const settings = this.plugin.settings;
-		const targetColumnName = settings.extractionColumnName || 'To Do';
+		const targetColumnName = columnName || settings.extractionColumnName || 'To Do';
 		
 		// Find the target column
 		let targetColumn = board.columns.find(col => 
@@ -352,13 +617,15 @@ export class TaskExtractor {
 			targetColumn = board.columns[0];
 		}
 
-		// If no columns exist, create default ones
+		// If no columns exist, create the ones of the template for extracted boards
 		if (!targetColumn) {
-			board.columns = this.createDefaultColumns();
+			const template = this.plugin.boardTemplates.getTemplate(this.plugin.settings.extractionBoardTemplate);
+			board.columns = this.plugin.boardTemplates.createColumns(template, board);
 			targetColumn = board.columns[0];
 		}
 
-		// Add card to column
+		// Add card to column, starting its time in the column now
+		card.columnEnteredAt = Date.now();
 		targetColumn.cards.push(card);
 		
 		// Update board
@@ -367,34 +634,157 @@ export class TaskExtractor {
 	}
 
 	/**
-	 * Remove extracted tasks from source note (if enabled)
+	 * Remove extracted tasks and their indented children from their source notes.
+	 * Lines are found again by block ID or content inside an atomic read-modify-write,
+	 * so edits made since parsing never cause the wrong lines to go. Depending on the
+	 * settings, removed lines are moved under an "Extracted" heading or into an archive note.
 	 */
 	async removeExtractedTasksFromSource(extractedTasks: ExtractedTask[]): Promise<void> {
-		const settings = this.plugin.settings;
-		
-		if (!settings.removeExtractedTasks || !settings.taskSourcePath) {
+		if (!this.plugin.settings.removeExtractedTasks) {
 			return;
 		}
 
-		const sourceFile = this.app.vault.getAbstractFileByPath(settings.taskSourcePath);
-		
-		if (!sourceFile || !(sourceFile instanceof TFile)) {
+		const destination = this.plugin.settings.extractedTaskDestination || 'delete';
+		const tasksByPath = new Map<string, ExtractedTask[]>();
+		for (const task of extractedTasks) {
+			if (!task.sourcePath) continue;
+			if (!tasksByPath.has(task.sourcePath)) {
+				tasksByPath.set(task.sourcePath, []);
+			}
+			tasksByPath.get(task.sourcePath)!.push(task);
+		}
+
+		for (const [path, pathTasks] of tasksByPath) {
+			const sourceFile = this.app.vault.getAbstractFileByPath(path);
+			
+			if (!sourceFile || !(sourceFile instanceof TFile)) {
+				continue;
+			}
+
+			let removedLines: string[] = [];
+			await this.app.vault.process(sourceFile, (content) => {
+				const lines = content.split('\n');
+				const ranges = this.findTaskRanges(lines, path, pathTasks);
+				removedLines = ranges.flatMap(range => lines.slice(range.start, range.end + 1));
+
+				// Remove from the bottom up so earlier ranges keep their positions
+				for (const range of [...ranges].sort((a, b) => b.start - a.start)) {
+					lines.splice(range.start, range.end - range.start + 1);
+				}
+
+				if (destination === 'section' && removedLines.length > 0) {
+					this.insertIntoExtractedSection(lines, removedLines);
+				}
+				return lines.join('\n');
+			});
+
+			if (destination === 'note' && removedLines.length > 0) {
+				await this.appendToArchiveNote(sourceFile, removedLines);
+			}
+		}
+	}
+
+	/**
+	 * Current line ranges of tasks in a note, in source order. Tasks whose line
+	 * can't be found anymore are left alone.
+	 */
+	private findTaskRanges(lines: string[], path: string, tasks: ExtractedTask[]): { start: number; end: number }[] {
+		const ranges: { start: number; end: number }[] = [];
+		// Lines already claimed are blanked so identical tasks each find their own line
+		const available = [...lines];
+
+		for (const task of tasks) {
+			const parsed = parseSourceLine(task.originalLine);
+			const start = findSourceLine(available, {
+				path,
+				blockId: task.blockId || parsed?.blockId,
+				line: task.lineNumber - 1,
+				text: parsed?.text || task.text
+			});
+			if (start === -1) continue;
+
+			// Children are the indented lines right below the task, as they are now
+			const taskIndent = this.getIndentWidth(lines[start]);
+			let end = start;
+			for (let j = start + 1; j < lines.length; j++) {
+				if (lines[j].trim() === '') continue;
+				if (this.getIndentWidth(lines[j]) <= taskIndent) break;
+				end = j;
+			}
+
+			for (let j = start; j <= end; j++) {
+				available[j] = '';
+			}
+			ranges.push({ start, end });
+		}
+
+		return ranges.sort((a, b) => a.start - b.start);
+	}
+
+	/**
+	 * Add lines to the end of the note's "Extracted" section, creating it at the end of the note if needed
+	 */
+	private insertIntoExtractedSection(lines: string[], extractedLines: string[]): void {
+		const heading = this.getExtractedSectionHeading();
+		const headingIndex = lines.findIndex(line => {
+			const match = line.trim().match(/^#{1,6}\s+(.*)$/);
+			return !!match && match[1].trim().toLowerCase() === heading.toLowerCase();
+		});
+
+		if (headingIndex === -1) {
+			while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+				lines.pop();
+			}
+			lines.push('', `## ${heading}`, '', ...extractedLines, '');
 			return;
 		}
 
-		const content = await this.app.vault.read(sourceFile);
-		const lines = content.split('\n');
-		
-		// Remove lines that were extracted (in reverse order to maintain line numbers)
-		const lineNumbersToRemove = extractedTasks
-			.map(task => task.lineNumber - 1) // Convert to 0-based index
-			.sort((a, b) => b - a); // Sort in descending order
+		// The section ends at the next heading of the same or a higher level
+		const level = lines[headingIndex].trim().match(/^#+/)![0].length;
+		let sectionEnd = lines.length;
+		for (let i = headingIndex + 1; i < lines.length; i++) {
+			const match = lines[i].trim().match(/^(#{1,6})\s/);
+			if (match && match[1].length <= level) {
+				sectionEnd = i;
+				break;
+			}
+		}
 
-		for (const lineIndex of lineNumbersToRemove) {
-			lines.splice(lineIndex, 1);
+		let insertAt = sectionEnd;
+		while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === '') {
+			insertAt--;
+		}
+		if (insertAt === headingIndex + 1) {
+			lines.splice(insertAt, 0, '', ...extractedLines);
+		} else {
+			lines.splice(insertAt, 0, ...extractedLines);
 		}
+	}
+
+	/**
+	 * Append lines to the archive note under a heading naming their source and the date
+	 */
+	private async appendToArchiveNote(sourceFile: TFile, extractedLines: string[]): Promise<void> {
+		const archivePath = this.plugin.settings.extractedArchivePath || 'Extracted Tasks.md';
+		const link = this.app.metadataCache.fileToLinktext(sourceFile, archivePath);
+		const block = [`## ${moment().format('YYYY-MM-DD HH:mm')} from [[${link}]]`, '', ...extractedLines].join('\n');
+
+		const archiveFile = this.app.vault.getAbstractFileByPath(archivePath);
+		if (archiveFile instanceof TFile) {
+			await this.app.vault.process(archiveFile, (content) => {
+				return content.trim() ? `${content.trimEnd()}\n\n${block}\n` : `${block}\n`;
+			});
+			return;
+		}
+
+		const folderPath = archivePath.substring(0, archivePath.lastIndexOf('/'));
+		if (folderPath && !(this.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+		await this.app.vault.create(archivePath, `${block}\n`);
+	}
 
-		const newContent = lines.join('\n');
-		await this.app.vault.modify(sourceFile, newContent);
+	private getExtractedSectionHeading(): string {
+		return (this.plugin.settings.extractedSectionHeading || 'Extracted').trim();
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+import { TaskMetadata, TaskPriority } from './types';
+
+const DATE_PATTERN = '(\\d{4}-\\d{2}-\\d{2})';
+
+// Tasks plugin emoji format: https://publish.obsidian.md/tasks/Reference/Task+Formats/Tasks+Emoji+Format
+const EMOJI_DATES: { emoji: string; field: 'dueDate' | 'scheduledDate' | 'startDate' | 'doneDate' }[] = [
+	{ emoji: '📅', field: 'dueDate' },
+	{ emoji: '⏳', field: 'scheduledDate' },
+	{ emoji: '🛫', field: 'startDate' },
+	{ emoji: '✅', field: 'doneDate' }
+];
+
+export const PRIORITY_EMOJI: Record<TaskPriority, string> = {
+	highest: '🔺',
+	high: '⏫',
+	medium: '🔼',
+	low: '🔽',
+	lowest: '⏬'
+};
+
+// Dataview inline field names (the Tasks plugin's Dataview format) → metadata fields
+const INLINE_FIELDS: Record<string, keyof TaskMetadata> = {
+	due: 'dueDate',
+	scheduled: 'scheduledDate',
+	start: 'startDate',
+	completion: 'doneDate',
+	done: 'doneDate',
+	repeat: 'recurrence',
+	recurrence: 'recurrence',
+	priority: 'priority'
+};
+
+// Anything that ends a recurrence rule such as "🔁 every week on Monday"
+const RECURRENCE_PATTERN = /🔁\uFE0F?\s*([^📅⏳🛫✅➕❌🔺⏫🔼🔽⏬🔁#^[\]]+)/u;
+// Created and cancelled dates are stripped from the text but not kept
+const IGNORED_PATTERN = new RegExp(`(?:➕|❌)\\uFE0F?\\s*${DATE_PATTERN}`, 'gu');
+const INLINE_FIELD_PATTERN = /[[(]\s*([A-Za-z]+)\s*::\s*([^\])]*?)\s*[\])]/g;
+
+/**
+ * Read Tasks plugin emoji metadata and Dataview inline fields from a task's text.
+ * Returns the metadata and the text with the recognized metadata removed.
+ */
+export function parseTaskMetadata(text: string): { metadata: TaskMetadata; text: string } {
+	const metadata: TaskMetadata = {};
+	let remaining = text;
+
+	for (const { emoji, field } of EMOJI_DATES) {
+		const pattern = new RegExp(`${emoji}\\uFE0F?\\s*${DATE_PATTERN}`, 'u');
+		const match = remaining.match(pattern);
+		if (match) {
+			metadata[field] = match[1];
+			remaining = remaining.replace(pattern, ' ');
+		}
+	}
+
+	const recurrenceMatch = remaining.match(RECURRENCE_PATTERN);
+	if (recurrenceMatch && recurrenceMatch[1].trim()) {
+		metadata.recurrence = recurrenceMatch[1].trim();
+		remaining = remaining.replace(RECURRENCE_PATTERN, ' ');
+	}
+
+	for (const [priority, emoji] of Object.entries(PRIORITY_EMOJI) as [TaskPriority, string][]) {
+		if (remaining.includes(emoji)) {
+			metadata.priority = metadata.priority || priority;
+			remaining = remaining.split(`${emoji}\uFE0F`).join(' ').split(emoji).join(' ');
+		}
+	}
+
+	remaining = remaining.replace(IGNORED_PATTERN, ' ');
+
+	remaining = remaining.replace(INLINE_FIELD_PATTERN, (field: string, name: string, value: string) => {
+		const key = INLINE_FIELDS[name.toLowerCase()];
+		if (!key) return field; // Leave unknown inline fields in the text
+
+		if (key === 'priority') {
+			const priority = value.toLowerCase() as TaskPriority;
+			if (priority in PRIORITY_EMOJI) {
+				metadata.priority = priority;
+			}
+		} else if (key === 'recurrence') {
+			if (value) {
+				metadata.recurrence = value;
+			}
+		} else {
+			const dateMatch = value.match(new RegExp(`^${DATE_PATTERN}`));
+			if (dateMatch) {
+				metadata[key] = dateMatch[1];
+			}
+		}
+		return ' ';
+	});
+
+	return {
+		metadata,
+		text: remaining.replace(/\s+/g, ' ').trim()
+	};
+}
@@ -0,0 +1,87 @@
+import { ExtractedTask, RoutingRule } from './types';
+import { globToRegExp } from './task-sources';
+
+/**
+ * Split a comma-separated rule pattern into lowercase terms
+ */
+function splitTerms(pattern: string): string[] {
+	return pattern
+		.split(',')
+		.map(term => term.trim().replace(/^#/, '').toLowerCase())
+		.filter(term => term.length > 0);
+}
+
+/**
+ * Whether a routing rule applies to a task
+ */
+export function matchesRule(rule: RoutingRule, task: ExtractedTask): boolean {
+	if (!rule.pattern.trim()) return false;
+
+	switch (rule.matchType) {
+		case 'tag': {
+			const tags = task.tags.map(tag => tag.toLowerCase());
+			return splitTerms(rule.pattern).some(term => tags.includes(term));
+		}
+		case 'keyword': {
+			const text = task.cleanText.toLowerCase();
+			return splitTerms(rule.pattern).some(term => text.includes(term));
+		}
+		case 'regex':
+			try {
+				return new RegExp(rule.pattern, 'i').test(task.text);
+			} catch {
+				console.warn(`Routing rule "${rule.name}" has an invalid regular expression`);
+				return false;
+			}
+		case 'source': {
+			if (!task.sourcePath) return false;
+			const pattern = rule.pattern.trim().replace(/\/+$/, '');
+			if (/[*?]/.test(pattern)) {
+				return globToRegExp(pattern).test(task.sourcePath);
+			}
+			return task.sourcePath === pattern || task.sourcePath.startsWith(`${pattern}/`);
+		}
+		case 'domain': {
+			const domains = splitTerms(rule.pattern).map(domain => domain.replace(/^www\./, ''));
+			return task.urls.some(({ url }) => {
+				try {
+					const host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+					return domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+				} catch {
+					return false;
+				}
+			});
+		}
+		default:
+			return false;
+	}
+}
+
+/**
+ * Evaluates routing rules in order; the first enabled rule that matches a task wins
+ */
+export class TaskRouter {
+	private getRules: () => RoutingRule[];
+
+	constructor(getRules: () => RoutingRule[]) {
+		this.getRules = getRules;
+	}
+
+	findMatchingRule(task: ExtractedTask): RoutingRule | null {
+		return this.getRules().find(rule => rule.enabled && matchesRule(rule, task)) || null;
+	}
+
+	/**
+	 * Copy of the task with the rule's column, extra tags and title prefix applied
+	 */
+	applyRule(rule: RoutingRule, task: ExtractedTask): ExtractedTask {
+		const extraTags = (rule.addTags || []).filter(tag => !task.tags.includes(tag));
+		return {
+			...task,
+			tags: [...task.tags, ...extraTags],
+			defaultColumn: rule.column || task.defaultColumn,
+			titlePrefix: rule.titlePrefix || task.titlePrefix,
+			matchedRule: rule.name
+		};
+	}
+}
@@ -0,0 +1,152 @@
+import { App, TFile, moment } from 'obsidian';
+import { TaskSource } from './types';
+import CrystalBoardsPlugin from './main';
+
+/**
+ * Turn a glob such as `Meetings/**\/*.md` into a regular expression over vault paths.
+ * `**` matches across folders, `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let pattern = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			// `**/` also matches no folder at all
+			if (glob[i + 2] === '/') {
+				pattern += '(?:.*/)?';
+				i += 2;
+			} else {
+				pattern += '.*';
+				i++;
+			}
+		} else if (char === '*') {
+			pattern += '[^/]*';
+		} else if (char === '?') {
+			pattern += '[^/]';
+		} else {
+			pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Resolves the configured task sources to the notes they cover
+ */
+export class TaskSourceResolver {
+	private app: App;
+	private plugin: CrystalBoardsPlugin;
+
+	constructor(app: App, plugin: CrystalBoardsPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * All enabled sources: the main task source note followed by the additional sources
+	 */
+	getSources(): TaskSource[] {
+		const settings = this.plugin.settings;
+		const sources: TaskSource[] = [];
+
+		if (settings.taskSourcePath) {
+			sources.push({ id: 'default', type: 'file', path: settings.taskSourcePath, enabled: true });
+		}
+
+		for (const source of settings.taskSources || []) {
+			if (source.enabled && (source.path || source.type === 'daily-notes')) {
+				sources.push(source);
+			}
+		}
+
+		return sources;
+	}
+
+	/**
+	 * Notes covered by a source, in path order
+	 */
+	resolveFiles(source: TaskSource): TFile[] {
+		if (source.type === 'file') {
+			const file = this.app.vault.getAbstractFileByPath(source.path);
+			return file instanceof TFile && !this.plugin.dataManager.isBoardFile(file.path) ? [file] : [];
+		}
+
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => this.matches(source, file))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	/**
+	 * The first source that covers a file, or null
+	 */
+	findSourceForFile(file: TFile): TaskSource | null {
+		return this.getSources().find(source => this.matches(source, file)) || null;
+	}
+
+	private matches(source: TaskSource, file: TFile): boolean {
+		if (source.type !== 'file' && this.isArchiveNote(file)) {
+			return false;
+		}
+		// Board files of the markdown storage backend list cards, not tasks
+		if (this.plugin.dataManager.isBoardFile(file.path)) {
+			return false;
+		}
+
+		switch (source.type) {
+			case 'file':
+				return file.path === source.path;
+			case 'folder': {
+				const folder = source.path.replace(/\/+$/, '');
+				return file.extension === 'md' && (folder === '' || file.path.startsWith(`${folder}/`));
+			}
+			case 'glob':
+				return file.extension === 'md' && globToRegExp(source.path).test(file.path);
+			case 'daily-notes':
+				return file.extension === 'md' && this.isRecentDailyNote(source, file);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * The note removed tasks are moved to, which must not be extracted from again
+	 */
+	private isArchiveNote(file: TFile): boolean {
+		const settings = this.plugin.settings;
+		return !!settings.removeExtractedTasks
+			&& settings.extractedTaskDestination === 'note'
+			&& file.path === (settings.extractedArchivePath || 'Extracted Tasks.md');
+	}
+
+	private isRecentDailyNote(source: TaskSource, file: TFile): boolean {
+		const { folder, format } = this.getDailyNoteSettings(source);
+		if (folder && !file.path.startsWith(`${folder}/`)) {
+			return false;
+		}
+
+		// The format may contain folders (e.g. YYYY/MM/YYYY-MM-DD), so parse the whole relative path
+		const relativePath = (folder ? file.path.substring(folder.length + 1) : file.path).replace(/\.md$/, '');
+		const date = moment(relativePath, format, true);
+		if (!date.isValid()) {
+			return false;
+		}
+
+		const days = Math.max(1, source.days || 7);
+		const earliest = moment().startOf('day').subtract(days - 1, 'days');
+		return !date.isBefore(earliest) && !date.isAfter(moment().endOf('day'));
+	}
+
+	/**
+	 * Folder and date format of daily notes: the source's own values, falling back
+	 * to the core Daily notes plugin settings
+	 */
+	private getDailyNoteSettings(source: TaskSource): { folder: string; format: string } {
+		const dailyNotes = (this.app as any).internalPlugins?.getPluginById?.('daily-notes');
+		const options = dailyNotes?.instance?.options || {};
+
+		return {
+			folder: (source.path || options.folder || '').replace(/^\/+|\/+$/g, ''),
+			format: source.dateFormat || options.format || 'YYYY-MM-DD'
+		};
+	}
+}
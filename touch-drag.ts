@@ -0,0 +1,256 @@
+// How long a finger has to rest on an element before it is picked up
+const LONG_PRESS_MS = 350;
+// Movement allowed during the long press before it counts as scrolling instead
+const MOVE_TOLERANCE_PX = 10;
+// Distance from a scrollable edge at which dragging starts to scroll, and the top speed
+const AUTO_SCROLL_EDGE_PX = 48;
+const AUTO_SCROLL_MAX_SPEED_PX = 14;
+
+export interface TouchDragCallbacks {
+	onStart: (element: HTMLElement) => void;
+	onMove: (x: number, y: number, target: HTMLElement | null) => void;
+	onDrop: (x: number, y: number, target: HTMLElement | null) => void | Promise<void>;
+	onEnd: (element: HTMLElement) => void;
+}
+
+/**
+ * Drag and drop for touch and pen input, where HTML5 drag events don't fire.
+ * A long press picks the element up, a copy follows the finger, and scrollable
+ * areas under the finger scroll when it nears their edges. Mouse input is left to
+ * the HTML5 handlers.
+ */
+export class TouchDragController {
+	private callbacks: TouchDragCallbacks;
+	// Presses starting on these elements (buttons, checkboxes...) never pick anything up
+	private ignoreSelector: string;
+	private attached = new WeakSet<HTMLElement>();
+
+	private element: HTMLElement | null = null;
+	private pointerId: number | null = null;
+	private startX = 0;
+	private startY = 0;
+	private lastX = 0;
+	private lastY = 0;
+	private pressTimer: number | null = null;
+	private dragging = false;
+	private ghost: HTMLElement | null = null;
+	private ghostOffsetX = 0;
+	private ghostOffsetY = 0;
+	private scrollFrame: number | null = null;
+
+	constructor(callbacks: TouchDragCallbacks, ignoreSelector = 'button, input, select, textarea, a') {
+		this.callbacks = callbacks;
+		this.ignoreSelector = ignoreSelector;
+	}
+
+	/**
+	 * Make an element draggable by touch. Attaching the same element again does nothing.
+	 */
+	attach(element: HTMLElement): void {
+		if (this.attached.has(element)) return;
+		this.attached.add(element);
+
+		element.addClass('crystal-touch-draggable');
+		element.addEventListener('pointerdown', (e) => this.handlePointerDown(e, element));
+		// Keep the browser's own long-press menu and native drag out of the way
+		element.addEventListener('contextmenu', (e) => {
+			if (this.element === element) e.preventDefault();
+		});
+		element.addEventListener('dragstart', (e) => {
+			if (this.element === element) e.preventDefault();
+		});
+		// Registered up front: browsers decide whether a touch may scroll when it starts
+		element.addEventListener('touchmove', this.handleTouchMove, { passive: false });
+	}
+
+	/**
+	 * Abandon a pending or running drag without dropping
+	 */
+	cancel(): void {
+		const element = this.element;
+		const wasDragging = this.dragging;
+		this.reset();
+		if (element && wasDragging) {
+			this.callbacks.onEnd(element);
+		}
+	}
+
+	private handlePointerDown(event: PointerEvent, element: HTMLElement): void {
+		if (event.pointerType === 'mouse' || !event.isPrimary || this.element) return;
+		if ((event.target as HTMLElement).closest(this.ignoreSelector)) return;
+
+		this.element = element;
+		this.pointerId = event.pointerId;
+		this.startX = this.lastX = event.clientX;
+		this.startY = this.lastY = event.clientY;
+
+		document.addEventListener('pointermove', this.handlePointerMove);
+		document.addEventListener('pointerup', this.handlePointerUp);
+		document.addEventListener('pointercancel', this.handlePointerCancel);
+
+		this.pressTimer = window.setTimeout(() => this.startDrag(), LONG_PRESS_MS);
+	}
+
+	private handlePointerMove = (event: PointerEvent): void => {
+		if (event.pointerId !== this.pointerId) return;
+		this.lastX = event.clientX;
+		this.lastY = event.clientY;
+
+		if (!this.dragging) {
+			// Moving before the long press completes is a scroll, not a drag
+			if (Math.hypot(event.clientX - this.startX, event.clientY - this.startY) > MOVE_TOLERANCE_PX) {
+				this.reset();
+			}
+			return;
+		}
+
+		this.moveGhost();
+		this.callbacks.onMove(this.lastX, this.lastY, this.getTargetAt(this.lastX, this.lastY));
+	};
+
+	private handlePointerUp = async (event: PointerEvent): Promise<void> => {
+		if (event.pointerId !== this.pointerId) return;
+
+		const element = this.element;
+		const wasDragging = this.dragging;
+		const target = this.getTargetAt(event.clientX, event.clientY);
+		this.reset();
+		if (!element || !wasDragging) return;
+
+		// The lifted finger would otherwise also click the element it was dropped on
+		this.suppressNextClick();
+		try {
+			await this.callbacks.onDrop(event.clientX, event.clientY, target);
+		} finally {
+			this.callbacks.onEnd(element);
+		}
+	};
+
+	private handlePointerCancel = (event: PointerEvent): void => {
+		if (event.pointerId === this.pointerId) {
+			this.cancel();
+		}
+	};
+
+	// Stops the page from scrolling under the finger while something is being dragged
+	private handleTouchMove = (event: TouchEvent): void => {
+		if (this.dragging && event.cancelable) {
+			event.preventDefault();
+		}
+	};
+
+	private startDrag(): void {
+		this.pressTimer = null;
+		const element = this.element;
+		if (!element) return;
+
+		this.dragging = true;
+		window.getSelection()?.removeAllRanges();
+
+		const rect = element.getBoundingClientRect();
+		this.ghostOffsetX = this.startX - rect.left;
+		this.ghostOffsetY = this.startY - rect.top;
+		this.ghost = element.cloneNode(true) as HTMLElement;
+		this.ghost.addClass('crystal-touch-drag-ghost');
+		this.ghost.style.width = `${rect.width}px`;
+		document.body.appendChild(this.ghost);
+		this.moveGhost();
+
+		this.callbacks.onStart(element);
+		this.callbacks.onMove(this.lastX, this.lastY, this.getTargetAt(this.lastX, this.lastY));
+		this.scrollFrame = window.requestAnimationFrame(this.autoScroll);
+	}
+
+	private moveGhost(): void {
+		if (!this.ghost) return;
+		this.ghost.style.transform = `translate(${this.lastX - this.ghostOffsetX}px, ${this.lastY - this.ghostOffsetY}px)`;
+	}
+
+	/**
+	 * Scroll every scrollable area under the finger whose edge it is close to, then
+	 * report the move again since the content under the finger changed
+	 */
+	private autoScroll = (): void => {
+		if (!this.dragging) return;
+
+		let scrolled = false;
+		let el = this.getTargetAt(this.lastX, this.lastY);
+		while (el && el !== document.body) {
+			const style = getComputedStyle(el);
+			const rect = el.getBoundingClientRect();
+
+			if (/(auto|scroll)/.test(style.overflowY) && el.scrollHeight > el.clientHeight) {
+				const dy = this.getScrollSpeed(this.lastY, rect.top, rect.bottom);
+				if (dy !== 0) {
+					const before = el.scrollTop;
+					el.scrollTop += dy;
+					scrolled = scrolled || el.scrollTop !== before;
+				}
+			}
+			if (/(auto|scroll)/.test(style.overflowX) && el.scrollWidth > el.clientWidth) {
+				const dx = this.getScrollSpeed(this.lastX, rect.left, rect.right);
+				if (dx !== 0) {
+					const before = el.scrollLeft;
+					el.scrollLeft += dx;
+					scrolled = scrolled || el.scrollLeft !== before;
+				}
+			}
+			el = el.parentElement;
+		}
+
+		if (scrolled) {
+			this.callbacks.onMove(this.lastX, this.lastY, this.getTargetAt(this.lastX, this.lastY));
+		}
+		this.scrollFrame = window.requestAnimationFrame(this.autoScroll);
+	};
+
+	/**
+	 * Pixels to scroll this frame: faster the closer the finger is to an edge
+	 */
+	private getScrollSpeed(position: number, start: number, end: number): number {
+		const edge = Math.min(AUTO_SCROLL_EDGE_PX, (end - start) / 4);
+		if (position < start + edge) {
+			return -Math.ceil(AUTO_SCROLL_MAX_SPEED_PX * (1 - Math.max(0, position - start) / edge));
+		}
+		if (position > end - edge) {
+			return Math.ceil(AUTO_SCROLL_MAX_SPEED_PX * (1 - Math.max(0, end - position) / edge));
+		}
+		return 0;
+	}
+
+	/**
+	 * The element under the finger; the ghost ignores pointer events so it is never hit
+	 */
+	private getTargetAt(x: number, y: number): HTMLElement | null {
+		return document.elementFromPoint(x, y) as HTMLElement | null;
+	}
+
+	private suppressNextClick(): void {
+		const suppress = (e: MouseEvent) => {
+			e.stopPropagation();
+			e.preventDefault();
+		};
+		document.addEventListener('click', suppress, { capture: true, once: true });
+		window.setTimeout(() => document.removeEventListener('click', suppress, { capture: true }), 400);
+	}
+
+	private reset(): void {
+		if (this.pressTimer !== null) {
+			window.clearTimeout(this.pressTimer);
+			this.pressTimer = null;
+		}
+		if (this.scrollFrame !== null) {
+			window.cancelAnimationFrame(this.scrollFrame);
+			this.scrollFrame = null;
+		}
+		document.removeEventListener('pointermove', this.handlePointerMove);
+		document.removeEventListener('pointerup', this.handlePointerUp);
+		document.removeEventListener('pointercancel', this.handlePointerCancel);
+
+		this.ghost?.remove();
+		this.ghost = null;
+		this.element = null;
+		this.pointerId = null;
+		this.dragging = false;
+	}
+}
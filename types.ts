@@ -1,6 +1,10 @@
 export interface KanbanData {
 	boards: Board[];
 	settings: PluginSettings;
+	// Board ID → markdown file path, used by the markdown storage backend
+	boardFiles?: Record<string, string>;
+	// Set once cards extracted before fingerprints existed have been given a title fingerprint
+	legacyFingerprintsMarked?: boolean;
 }
 
 export interface Board {
@@ -13,6 +17,9 @@ export interface Board {
 	coverImagePosition?: number; // 0-100, vertical position percentage
 	position: number;
 	columns: Column[];
+	archivedCards?: ArchivedCard[];
+	swimlanes?: SwimlaneSettings;
+	compactCards?: boolean; // Render card titles only
 	created: number;
 	modified: number;
 }
@@ -23,6 +30,10 @@ export interface Column {
 	color: string;
 	position: number;
 	cards: Card[];
+	wipLimit?: number; // Work-in-progress limit; unset or 0 means no limit
+	wipStrict?: boolean; // Block moves that would go over the limit instead of only warning
+	collapsed?: boolean; // Shown as a narrow strip with name and card count
+	defaultTemplateId?: string; // Card template that "+ Add Card" starts from
 }
 
 export interface Card {
@@ -35,6 +46,90 @@ export interface Card {
 	researchUrls: ResearchUrl[];
 	created: number;
 	modified: number;
+	columnEnteredAt?: number; // When the card was last added to or moved into its column
+	source?: CardSource; // Checkbox line the card was extracted from, kept in sync when enabled
+	fingerprint?: string; // Identifies the source task so re-extraction doesn't duplicate it
+	// Tasks plugin metadata, dates as YYYY-MM-DD
+	dueDate?: string;
+	scheduledDate?: string;
+	startDate?: string;
+	doneDate?: string;
+	recurrence?: string; // e.g. "every week on Monday"
+	priority?: TaskPriority;
+	lane?: string; // Custom swimlane the card belongs to
+}
+
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+
+export type TaskMetadata = Pick<Card, 'dueDate' | 'scheduledDate' | 'startDate' | 'doneDate' | 'recurrence' | 'priority'>;
+
+/**
+ * Starting point for new cards. Text fields may contain {{date}}, {{date:FORMAT}},
+ * {{board}} and {{column}} placeholders.
+ */
+export interface CardTemplate {
+	id: string; // "file:<path>" for templates read from notes
+	name: string;
+	title: string;
+	description: string;
+	tags: string[];
+	todos: string[];
+	researchUrls: { title: string; url: string }[];
+	path?: string; // Template note, unset for templates stored in settings
+}
+
+// What a new card is filled in with, shared by card templates and board template starter cards
+export type CardTemplateContent = Pick<CardTemplate, 'title' | 'description' | 'tags' | 'todos' | 'researchUrls'>;
+
+export interface BoardTemplateColumn {
+	name: string;
+	color: string;
+	wipLimit?: number;
+	wipStrict?: boolean;
+	defaultTemplateId?: string;
+	cards: CardTemplateContent[]; // Starter cards
+}
+
+/**
+ * Columns, starter cards and looks a new board is created with
+ */
+export interface BoardTemplate {
+	id: string;
+	name: string;
+	description?: string;
+	emoji?: string;
+	coverImage?: string;
+	columns: BoardTemplateColumn[];
+}
+
+export interface CardSource {
+	path: string;
+	blockId?: string; // Obsidian block ID (^id) appended to the source line
+	line: number; // 0-based line index when last seen, used as a hint
+	text: string; // Line text without bullet, checkbox and block ID, used if the block ID is removed
+}
+
+export type SwimlaneGrouping = 'none' | 'tag' | 'priority' | 'lane';
+
+export interface SwimlaneSettings {
+	groupBy: SwimlaneGrouping;
+	tags?: string[]; // Lane tags when grouping by tag; empty uses every tag on the board
+	lanes?: string[]; // Lanes when grouping by the card lane field, kept even while empty
+	collapsed?: string[]; // Keys of collapsed lanes
+}
+
+export interface ArchivedCard {
+	card: Card;
+	columnId: string;
+	columnName: string; // Fallback for restoring when the original column no longer exists
+	archivedAt: number;
+}
+
+export interface CardSearchResult {
+	board: Board;
+	card: Card;
+	columnName: string;
+	archived: boolean;
 }
 
 export interface TodoItem {
@@ -96,8 +191,50 @@ export interface ExtractedTask {
 	originalLine: string;
 	lineNumber: number;
 	hasHashtags?: boolean; // Flag to indicate if task has hashtags
+	checked?: boolean; // Whether the line is a ticked checkbox
+	blockId?: string; // Existing or assigned block ID of the source line
+	sourcePath?: string; // Note the task was read from
+	defaultBoard?: string; // Board for untagged tasks, from the task's source
+	defaultColumn?: string; // Column for new cards, from the task's source
+	subtasks?: { text: string; completed: boolean }[]; // Indented checkbox children
+	description?: string; // Indented plain text below the task
+	noteLinks?: string[]; // [[wikilink]] targets as written, resolved when the card is created
+	endLineNumber?: number; // Last line of the task including its children
+	titlePrefix?: string; // Extra title prefix added by a routing rule
+	matchedRule?: string; // Name of the routing rule that routed the task
+	metadata?: TaskMetadata; // Tasks plugin emoji or Dataview inline field metadata
+}
+
+export type RoutingMatchType = 'tag' | 'keyword' | 'regex' | 'source' | 'domain';
+
+export interface RoutingRule {
+	id: string;
+	name: string;
+	enabled: boolean;
+	matchType: RoutingMatchType;
+	pattern: string; // Comma-separated tags, keywords or domains; a regex; or a source path or glob
+	board?: string; // Target board; empty keeps the tag or default board
+	column?: string; // Target column; empty keeps the source or default column
+	addTags?: string[];
+	titlePrefix?: string;
 }
 
+export type TaskSourceType = 'file' | 'folder' | 'glob' | 'daily-notes';
+
+export interface TaskSource {
+	id: string;
+	type: TaskSourceType;
+	path: string; // File, folder or glob pattern; for daily notes an optional folder override
+	days?: number; // Daily notes: how many days back to read, including today
+	dateFormat?: string; // Daily notes: file name format, defaults to the Daily notes plugin setting
+	defaultBoard?: string;
+	defaultColumn?: string;
+	enabled: boolean;
+}
+
+// Where removed source lines go: deleted, moved under a heading in the same note, or into an archive note
+export type ExtractedTaskDestination = 'delete' | 'section' | 'note';
+
 export interface PluginSettings {
 	kanbanFolderPath: string;
 
@@ -106,13 +243,32 @@ export interface PluginSettings {
 	customPluginName: string;
 	// Task extraction settings
 	taskSourcePath?: string;
+	taskSources?: TaskSource[]; // Additional sources besides taskSourcePath
 	autoExtractOnStartup?: boolean;
 	extractedTaskPrefix?: string;
 	removeExtractedTasks?: boolean;
+	extractedTaskDestination?: ExtractedTaskDestination; // What happens to removed source lines
+	extractedSectionHeading?: string;
+	extractedArchivePath?: string;
 	tagMappingOverrides?: Record<string, string>;
+	routingRules?: RoutingRule[]; // Evaluated before tag mapping, first match wins
 	defaultExtractionBoard?: string;
 	extractionColumnName?: string;
+	syncSourceCheckboxes?: boolean;
+	syncDoneColumnName?: string;
 	// Smart Extract settings
+	// Card template settings
+	cardTemplates?: CardTemplate[];
+	cardTemplateFolder?: string; // Notes in this folder are offered as templates too
+	// Board template settings
+	boardTemplates?: BoardTemplate[]; // Saved from boards, offered after the built-in presets
+	extractionBoardTemplate?: string; // Template for boards created by task extraction
+	// Archive settings
+	autoArchiveEnabled?: boolean;
+	autoArchiveColumnName?: string;
+	autoArchiveAfterDays?: number;
+	// Storage settings
+	storageBackend?: 'data-json' | 'markdown';
 }
 
 
@@ -125,13 +281,32 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 	customPluginName: 'Crystal Boards',
 	// Task extraction defaults
 	taskSourcePath: '',
+	taskSources: [],
 	autoExtractOnStartup: false,
 	extractedTaskPrefix: '📥 ',
 	removeExtractedTasks: false,
+	extractedTaskDestination: 'delete',
+	extractedSectionHeading: 'Extracted',
+	extractedArchivePath: 'Extracted Tasks.md',
 	tagMappingOverrides: {},
+	routingRules: [],
 	defaultExtractionBoard: 'Inbox',
 	extractionColumnName: 'To Do',
+	syncSourceCheckboxes: false,
+	syncDoneColumnName: 'Done',
 	// Smart Extract defaults
+	// Card template defaults
+	cardTemplates: [],
+	cardTemplateFolder: '',
+	// Board template defaults
+	boardTemplates: [],
+	extractionBoardTemplate: 'basic',
+	// Archive defaults
+	autoArchiveEnabled: false,
+	autoArchiveColumnName: 'Done',
+	autoArchiveAfterDays: 14,
+	// Storage defaults
+	storageBackend: 'data-json',
 };;
 
 // View types
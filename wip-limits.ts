@@ -0,0 +1,24 @@
+import { Column } from './types';
+
+export type WipStatus = 'at-limit' | 'over-limit';
+
+/**
+ * Whether a column is at or over its WIP limit, or null when it's below or has no limit
+ */
+export function getWipStatus(column: Column): WipStatus | null {
+	if (!column.wipLimit) return null;
+	if (column.cards.length > column.wipLimit) return 'over-limit';
+	return column.cards.length === column.wipLimit ? 'at-limit' : null;
+}
+
+/**
+ * Why moving cards into a strict column isn't allowed, or null if the move is fine
+ */
+export function getWipBlockReason(column: Column, incomingCards: number): string | null {
+	if (!column.wipLimit || !column.wipStrict || incomingCards <= 0) return null;
+	if (column.cards.length + incomingCards <= column.wipLimit) return null;
+
+	const room = Math.max(0, column.wipLimit - column.cards.length);
+	return `"${column.name}" has a WIP limit of ${column.wipLimit} and already holds ${column.cards.length} card${column.cards.length === 1 ? '' : 's'}` +
+		(room > 0 ? `, so only ${room} more can be moved in.` : '. Finish or move a card out first.');
+}